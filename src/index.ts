@@ -1,6 +1,8 @@
-import { Context, Schema, Logger, h } from 'koishi'
+import { Context, Schema, Logger, Session, h } from 'koishi'
 import { readFileSync } from 'fs'
+import { mkdir, readdir, readFile, rm, writeFile } from 'fs/promises'
 import { resolve } from 'path'
+import { createHash } from 'crypto'
 
 export const name = 'streetfighter6-rank'
 export const inject = ['puppeteer', 'database']
@@ -8,31 +10,102 @@ export const inject = ['puppeteer', 'database']
 declare module 'koishi' {
   interface Context {
     puppeteer: {
-      page(): Promise<{
-        setViewport(options: { width: number; height: number }): Promise<void>
-        setUserAgent(userAgent: string): Promise<void>
-        setExtraHTTPHeaders(headers: Record<string, string>): Promise<void>
-        goto(url: string, options?: { waitUntil?: string; timeout?: number }): Promise<void>
-        waitForSelector(selector: string, options?: { timeout?: number }): Promise<void>
-        $(selector: string): Promise<{
-          screenshot(options: { type: 'png' }): Promise<Buffer>
-        } | null>
-        setCookie(...cookies: Array<{ name: string; value: string; domain: string }>): Promise<void>
-        evaluate<T>(fn: () => T): Promise<T>
-        screenshot(options: { type: 'png'; fullPage?: boolean }): Promise<Buffer>
-        close(): Promise<void>
-      }>
+      browser?: PuppeteerBrowser
+      page(): Promise<PuppeteerPage>
     }
   }
   interface Tables {
     streetfighter6_binding: StreetFighter6Binding
+    streetfighter6_snapshot: StreetFighter6Snapshot
+    streetfighter6_subscription: StreetFighter6Subscription
+    streetfighter6_cache: StreetFighter6CacheEntry
+    streetfighter6_setting: StreetFighter6Setting
   }
 }
 
+interface CaptureClip {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+interface PuppeteerPage {
+  setViewport(options: { width: number; height: number }): Promise<void>
+  setUserAgent(userAgent: string): Promise<void>
+  setExtraHTTPHeaders(headers: Record<string, string>): Promise<void>
+  goto(url: string, options?: { waitUntil?: string; timeout?: number; referer?: string }): Promise<void>
+  waitForSelector(selector: string, options?: { timeout?: number }): Promise<void>
+  $(selector: string): Promise<{
+    screenshot(options: { type: 'png' }): Promise<Buffer>
+  } | null>
+  cookies(...urls: string[]): Promise<Array<{ name: string; value: string; domain: string }>>
+  setCookie(...cookies: Array<{ name: string; value: string; domain: string }>): Promise<void>
+  deleteCookie(...cookies: Array<{ name: string; domain?: string }>): Promise<void>
+  setContent(html: string, options?: { waitUntil?: string; timeout?: number }): Promise<void>
+  evaluate<T, A extends unknown[] = []>(fn: (...args: A) => T, ...args: A): Promise<T>
+  screenshot(options: { type: 'png'; fullPage?: boolean; clip?: CaptureClip }): Promise<Buffer>
+  close(): Promise<void>
+}
+
+// 独立的浏览器上下文，Cookie 与其他上下文互不影响
+interface PuppeteerBrowserContext {
+  newPage(): Promise<PuppeteerPage>
+  close(): Promise<void>
+}
+
+interface PuppeteerBrowser {
+  createBrowserContext?(): Promise<PuppeteerBrowserContext>
+  createIncognitoBrowserContext?(): Promise<PuppeteerBrowserContext>  // puppeteer 22 之前的名称
+}
+
 export interface StreetFighter6Binding {
   id: number
-  userId: string
+  aid: number         // Koishi 用户ID，同一用户在不同平台共享绑定；旧版本数据未迁移前为 0
+  userId: string      // 平台:平台用户ID，旧版本数据只有平台用户ID
+  playerId: string
+  playerName: string  // 绑定时从资料页解析到的玩家名称
+  alias: string       // 账号别名，如 main、alt，可为空
+  isDefault: boolean  // 未指定账号时使用的绑定
+}
+
+export interface StreetFighter6Snapshot {
+  id: number
+  playerId: string
+  character: string
+  rankName: string
+  rankPoints: number
+  masterRate: number   // 非 Master 段位时为 0
+  wins: number         // 该角色累计胜场，未知时为 -1
+  battles: number      // 该角色累计对战数，未知时为 -1
+  isMain: boolean
+  createdAt: Date
+}
+
+export interface StreetFighter6CacheEntry {
+  key: string
+  value: string
+  expires: Date
+}
+
+export interface StreetFighter6Setting {
+  key: string
+  value: string
+  updatedAt: Date
+}
+
+export interface StreetFighter6Subscription {
+  id: number
+  platform: string
+  selfId: string      // 发送通知所用的机器人
+  channelId: string
   playerId: string
+  createdAt: Date
+  // 上一次轮询时的状态，作为下次比较的基准；rankName 为空表示尚未建立基准
+  notifyCharacter: string
+  notifyRankName: string
+  notifyRankPoints: number
+  notifyMasterRate: number
 }
 
 export interface Config {
@@ -41,11 +114,49 @@ export interface Config {
   locale: 'zh-hans' | 'en-us' | 'ja-jp' | 'ko-kr' | 'zh-hant'
   userAgent: string
   cookie?: string
+  cookies: string[]
+  cookieProbePlayerId?: string
+
+  // Cookie 监控
+  cookieCheckInterval: number
+  cookieDeadThreshold: number
+  cookieBenchMinutes: number
+  cookieAlertTargets: string[]
   
   // 功能开关
   enableTextOutput: boolean
   enableScreenshotOutput: boolean
   enableForwardMessage: boolean
+
+  // 定时通知
+  enableNotification: boolean
+  notifyInterval: number
+  notifyQuietStart: number
+  notifyQuietEnd: number
+  notifyMrThresholds: number[]
+
+  // 缓存设置
+  cacheMaxEntries: number
+  cacheMaxSizeMB: number
+  cachePersistence: 'none' | 'database' | 'file'
+  textCacheTTL: number
+  screenshotCacheTTL: number
+
+  // 请求与冷却
+  httpTimeout: number
+  screenshotTimeout: number
+  screenshotWaitTimeout: number
+  cooldown: number
+  rankCooldown: number
+  searchCooldown: number
+  cooldownScope: 'user' | 'channel' | 'global'
+  cooldownBurst: number
+  cooldownExemptAuthority: number
+  requestConcurrency: number
+  requestInterval: number
+  pagePoolSize: number
+  pageMaxUses: number
+  showWaitingMessage: boolean
   
   // 调试选项
   debug: boolean
@@ -64,7 +175,17 @@ export const Config: Schema<Config> = Schema.intersect([
     ]).default('zh-hans').description('页面语言'),
     userAgent: Schema.string().default('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36').description('浏览器标识'),
     cookie: Schema.string().role('secret').description('登录 Cookie'),
+    cookies: Schema.array(Schema.string().role('secret')).default([]).description('更多登录 Cookie，与上面的 Cookie 轮流使用'),
+    cookieProbePlayerId: Schema.string().description('检测 Cookie 是否有效时访问的玩家ID'),
   }).description('网站连接配置'),
+
+  Schema.object({
+    // Cookie 监控
+    cookieCheckInterval: Schema.natural().default(60).description('定时检测 Cookie 的间隔（分钟），0 表示不定时检测'),
+    cookieDeadThreshold: Schema.natural().min(1).default(3).description('同一 Cookie 连续多少次遇到登录页后判定失效'),
+    cookieBenchMinutes: Schema.natural().default(10).description('Cookie 遇到登录页、403 或被拦截后暂停使用的时间（分钟）'),
+    cookieAlertTargets: Schema.array(Schema.string()).default([]).description('Cookie 失效时私聊通知的管理员，格式为 平台:用户ID，如 onebot:123456'),
+  }).description('Cookie 监控'),
   
   Schema.object({
     // 功能开关
@@ -72,6 +193,50 @@ export const Config: Schema<Config> = Schema.intersect([
     enableScreenshotOutput: Schema.boolean().default(true).description('启用截图输出'),
     enableForwardMessage: Schema.boolean().default(false).description('启用合并转发消息（玩家搜索结果）'),
   }).description('功能开关'),
+
+  Schema.object({
+    // 定时通知
+    enableNotification: Schema.boolean().default(false).description('启用段位变动通知（需在频道中使用 订阅段位）'),
+    notifyInterval: Schema.natural().min(10).default(30).description('轮询间隔（分钟）'),
+    notifyQuietStart: Schema.natural().max(23).default(1).description('免打扰开始时间（时），与结束时间相同表示不设免打扰'),
+    notifyQuietEnd: Schema.natural().max(23).default(8).description('免打扰结束时间（时），免打扰期间不轮询 Buckler'),
+    notifyMrThresholds: Schema.array(Schema.natural()).default([1600, 1700, 1800, 1900, 2000]).description('MR 跨越这些数值时发送通知'),
+  }).description('定时通知'),
+
+  Schema.object({
+    // 缓存设置
+    cacheMaxEntries: Schema.natural().min(10).default(500).description('缓存最大条目数'),
+    cacheMaxSizeMB: Schema.natural().min(1).default(100).description('缓存最大占用（MB），截图占用最多'),
+    cachePersistence: Schema.union([
+      Schema.const('none').description('不持久化'),
+      Schema.const('database').description('Koishi 数据库'),
+      Schema.const('file').description('数据目录下的文件'),
+    ]).default('none').description('缓存持久化方式，持久化后重启插件仍可使用未过期的缓存'),
+    textCacheTTL: Schema.natural().default(600).description('文本数据缓存时间（秒），0 表示不缓存'),
+    screenshotCacheTTL: Schema.natural().default(600).description('截图缓存时间（秒），0 表示不缓存'),
+  }).description('缓存设置'),
+
+  Schema.object({
+    // 请求与冷却
+    httpTimeout: Schema.natural().min(1000).default(15000).description('HTTP 请求超时（毫秒）'),
+    screenshotTimeout: Schema.natural().min(1000).default(30000).description('截图页面加载超时（毫秒）'),
+    screenshotWaitTimeout: Schema.natural().min(1000).default(15000).description('截图时等待页面内容出现的超时（毫秒）'),
+    cooldown: Schema.natural().default(5).description('查询冷却时间（秒），用于胜率、战斗记录、对比与群排行'),
+    rankCooldown: Schema.natural().default(5).description('排位查询冷却时间（秒）'),
+    searchCooldown: Schema.natural().default(5).description('玩家搜索冷却时间（秒）'),
+    cooldownScope: Schema.union([
+      Schema.const('user').description('每个用户'),
+      Schema.const('channel').description('每个频道（私聊按用户）'),
+      Schema.const('global').description('全局'),
+    ]).default('user').description('冷却计算范围'),
+    cooldownBurst: Schema.natural().min(1).default(1).description('冷却范围内可连续查询的次数，之后每隔冷却时间恢复一次'),
+    cooldownExemptAuthority: Schema.natural().default(3).description('权限等级不低于该值的用户不受冷却限制，0 表示不豁免'),
+    requestConcurrency: Schema.natural().min(1).default(2).description('同时访问 Buckler 的最大请求数（含截图页面），超出的请求排队等待'),
+    requestInterval: Schema.natural().default(500).description('相邻两次访问 Buckler 的最小间隔（毫秒）'),
+    pagePoolSize: Schema.natural().default(2).description('预热并复用的截图页面数，0 表示每次截图都打开新页面'),
+    pageMaxUses: Schema.natural().min(1).default(50).description('截图页面复用多少次后关闭重建'),
+    showWaitingMessage: Schema.boolean().default(true).description('查询时先发送等待提示'),
+  }).description('请求与冷却'),
   
   Schema.object({
     // 调试选项
@@ -86,10 +251,22 @@ export const Config: Schema<Config> = Schema.intersect([
     rankName: string
     rankPoints: number
     fightingPoints: number
+    masterRate?: number      // Master 段位的 MR，非 Master 时为空
+    masterLeague?: string    // Master 段位所在的联赛（如 High Master）
+    masterRanking?: number   // MR 排名
     title: string
+    leagues: CharacterLeague[]  // 各角色段位
     url: string
   }
 
+  interface CharacterLeague {
+    character: string
+    rankName: string
+    rankPoints: number
+    masterRate?: number
+    isMain: boolean  // 是否为资料页当前展示的主用角色
+  }
+
   interface PlayerSearchResult {
     playerId: string
     playerName: string
@@ -102,217 +279,1349 @@ export const Config: Schema<Config> = Schema.intersect([
     totalWins: number
     totalBattles: number
     winRate: number
+    characters: CharacterWinRate[]  // 各角色胜率
     url: string
-  }const logger = new Logger('streetfighter6-rank')
+  }
 
-// 简单内存缓存
-class SimpleCache<V> {
-  private store = new Map<string, { value: V; expires: number }>()
-  constructor(private ttlSec: number) {}
-  get(key: string): V | undefined {
-    const item = this.store.get(key)
-    if (!item) return
-    if (Date.now() > item.expires) {
-      this.store.delete(key)
-      return
+  interface CharacterWinRate {
+    character: string
+    wins: number
+    battles: number
+    winRate: number
+  }
+
+  interface WinRateFormatOptions {
+    sortBy?: 'battles' | 'rate'  // 按对战场数或胜率排序
+    minBattles?: number          // 隐藏对战场数少于该值的角色
+  }
+
+  interface BattleRecord {
+    opponentId: string
+    opponentName: string
+    playerCharacter: string
+    opponentCharacter: string
+    controlType: string      // 操作类型（经典/现代/动态）
+    matchType: string        // 对战类型（排位赛/休闲赛/对战大厅等）
+    playerRounds: string[]   // 玩家每局结果标记，L 表示该局落败
+    opponentRounds: string[]
+    result: 'win' | 'lose' | 'draw'
+    playerLp?: number
+    opponentLp?: number
+    lpChange?: number        // 与同角色上一场相比的积分变化
+    playedAt?: number        // 对战时间戳（毫秒）
+  }
+
+  interface BattlelogData {
+    playerId: string
+    playerName?: string
+    records: BattleRecord[]
+    url: string
+  }
+
+  // __NEXT_DATA__ 中读取的字段，只声明实际用到的部分。
+  // 页面结构随时可能变化，字段都是可选的；数值有时以字符串给出，统一经 pickNumber 读取
+  type NextNumber = number | string
+
+  interface NextPersonalInfo {
+    short_id?: NextNumber
+    fighter_id?: string
+  }
+
+  interface NextLeagueInfo {
+    league_point?: NextNumber
+    master_rating?: NextNumber
+    master_rating_ranking?: NextNumber
+    league_rank_info?: { league_rank_name?: string }
+    master_league_info?: { master_league_name?: string }
+    master_league_name?: string
+  }
+
+  // 角色段位列表的项，段位信息可能嵌套在 league_info 中，也可能直接展开
+  interface NextCharacterLeague extends NextLeagueInfo {
+    character_name?: string
+    league_info?: NextLeagueInfo
+  }
+
+  interface NextFighterBanner {
+    personal_info?: NextPersonalInfo
+    favorite_character_name?: string
+    favorite_character_league_info?: NextLeagueInfo
+    favorite_character_play_point?: { fighting_ground?: NextNumber }
+    title_data?: { title_data_val?: string }
+  }
+
+  interface NextCharacterWinRate {
+    character_name?: string
+    character_alpha?: string
+    win_count?: NextNumber
+    battle_count?: NextNumber
+  }
+
+  interface NextReplayPlayer {
+    player?: NextPersonalInfo
+    character_name?: string
+    battle_input_type_name?: string
+    round_results?: number[]
+    league_point?: NextNumber
+  }
+
+  interface NextReplay {
+    player1_info?: NextReplayPlayer
+    player2_info?: NextReplayPlayer
+    replay_battle_type_name?: string
+    uploaded_at?: NextNumber
+  }
+
+  interface NextPageProps {
+    fighter_banner_info?: NextFighterBanner
+    fighter_banner_list?: NextFighterBanner[]
+    character_league_infos?: NextCharacterLeague[]
+    replay_list?: NextReplay[]
+    play?: {
+      character_league_infos?: NextCharacterLeague[]
+      character_win_rates?: NextCharacterWinRate[]
+      fighting_points?: NextNumber
     }
-    return item.value
   }
-  set(key: string, value: V) {
-    this.store.set(key, { value, expires: Date.now() + this.ttlSec * 1000 })
+
+  // 段位通知比较用的玩家状态
+  interface NotifyState {
+    character: string
+    rankName: string
+    rankPoints: number
+    masterRate: number
   }
-  clear() {
-    this.store.clear()
+
+  // 群排行中的一行
+  interface LeaderboardEntry {
+    memberName: string
+    playerId: string
+    playerName?: string
+    character: string
+    rankName: string
+    rankPoints: number
+    masterRate: number
   }
-}
 
-// 在日志中脱敏 Cookie
-function redactCookie(c?: string) {
-  if (!c) return ''
-  const n = Math.min(8, Math.floor(c.length / 4))
-  return c.slice(0, n) + '…' + c.slice(-n)
+  interface CompareSide {
+    id: string
+    rank?: RankData
+    winRate?: WinRateData
+    battlelog?: BattlelogData
+  }
+
+  // 各命令独立计算冷却
+  type CooldownBucket = 'rank' | 'winrate' | 'battlelog' | 'compare' | 'leaderboard' | 'search'
+
+  // 一种 Buckler 页面的截图方式，新增页面只需声明一个描述
+  interface CaptureTarget {
+    name: string                      // 日志中的页面名称
+    cacheKey: string                  // 缓存键前缀
+    cache: CacheView<Buffer>
+    url(arg: string): string
+    referer?(arg: string): string
+    selectors: string[]               // 依次尝试截取的区域，都找不到时截取整个页面
+    ready?: string                    // 页面就绪的标志元素，默认为第一个截图区域
+    hide?: string[]                   // 截图前隐藏的元素
+    fullPage?: boolean                // 找不到截图区域时是否截取整个页面，否则只截取可视区域
+    clip?: CaptureClip                // 找不到截图区域时的截取范围
+  }
+const logger = new Logger('streetfighter6-rank')
+
+// 缓存持久化后端，内存中的缓存在写入、删除时同步到这里，启动时从这里恢复
+interface CacheStorage {
+  accepts(value: unknown): boolean  // 是否持久化该值
+  load(): Promise<Array<{ key: string; value: string; expires: number }>>
+  save(key: string, value: string, expires: number): Promise<void>
+  remove(key: string): Promise<void>
 }
 
-export function apply(ctx: Context, config: Config) {
-  const log = logger
+// 序列化缓存值，Buffer 以 base64 保存
+function serializeCacheValue(value: unknown): string {
+  return JSON.stringify(value, function (key, v) {
+    const raw = this[key]
+    return Buffer.isBuffer(raw) ? { __buffer: raw.toString('base64') } : v
+  })
+}
 
-  // 创建专门的数据表来存储 SF6 玩家ID绑定
-  ctx.model.extend('streetfighter6_binding', {
-    id: 'unsigned',
-    userId: 'string',
-    playerId: 'string',
-  }, {
-    primary: 'id',
-    autoInc: true,
+function deserializeCacheValue(text: string): unknown {
+  return JSON.parse(text, (key, v) => {
+    return v && typeof v === 'object' && typeof v.__buffer === 'string' ? Buffer.from(v.__buffer, 'base64') : v
   })
+}
 
-  // 内部常量
-  const CACHE_TTL = 600 // 缓存时间 600 秒
-  const HTTP_TIMEOUT = 15000 // HTTP 超时 15 秒
-  const COOLDOWN_SEC = 5 // 冷却时间 5 秒
-  const SHOW_WAITING_MESSAGE = true // 显示等待消息
-
-  let runtimeCookie = (config.cookie?.trim() || process.env.SF6_COOKIE || '').trim()
-  const rankCache = new SimpleCache<RankData>(CACHE_TTL)
-  const screenshotCache = new SimpleCache<Buffer>(CACHE_TTL)
-  const winRateCache = new SimpleCache<WinRateData>(CACHE_TTL)
-  const winRateScreenshotCache = new SimpleCache<Buffer>(CACHE_TTL)
-  const battlelogScreenshotCache = new SimpleCache<Buffer>(CACHE_TTL)
-  const playerSearchCache = new SimpleCache<PlayerSearchResult[]>(CACHE_TTL)
-  const playerSearchScreenshotCache = new SimpleCache<Buffer>(CACHE_TTL)
-  const cooldownMap = new Map<string, number>()
+// 使用 Koishi 数据库保存缓存
+class DatabaseCacheStorage implements CacheStorage {
+  constructor(private ctx: Context) {}
+  // 截图转为 base64 后常超过 text 字段的长度上限（如 MySQL TEXT 为 64KB），只持久化文本数据
+  accepts(value: unknown) {
+    return !Buffer.isBuffer(value)
+  }
+  async load() {
+    // 插件停止期间过期的条目不会再被读取，加载时一并清理
+    await this.ctx.database.remove('streetfighter6_cache', { expires: { $lte: new Date() } })
+    const rows = await this.ctx.database.get('streetfighter6_cache', { expires: { $gt: new Date() } })
+    return rows.map(row => ({ key: row.key, value: row.value, expires: row.expires.getTime() }))
+  }
+  async save(key: string, value: string, expires: number) {
+    await this.ctx.database.upsert('streetfighter6_cache', [{ key, value, expires: new Date(expires) }])
+  }
+  async remove(key: string) {
+    await this.ctx.database.remove('streetfighter6_cache', { key })
+  }
+}
 
-  // 增强日志输出
-  function debugLog(message: string, ...args: any[]) {
-    if (config.debug) {
-      log.info(`[DEBUG] ${message}`, ...args)
+// 使用数据目录下的文件保存缓存，每个键一个文件
+class FileCacheStorage implements CacheStorage {
+  constructor(private dir: string) {}
+  accepts() {
+    return true
+  }
+  private file(key: string) {
+    return resolve(this.dir, createHash('sha1').update(key).digest('hex') + '.json')
+  }
+  async load() {
+    await mkdir(this.dir, { recursive: true })
+    const entries: Array<{ key: string; value: string; expires: number }> = []
+    for (const name of await readdir(this.dir)) {
+      if (!name.endsWith('.json')) continue
+      const path = resolve(this.dir, name)
+      try {
+        const entry = JSON.parse(await readFile(path, 'utf8'))
+        if (entry.expires > Date.now()) entries.push(entry)
+        else await rm(path, { force: true })
+      } catch {
+        await rm(path, { force: true })
+      }
     }
+    return entries
   }
+  async save(key: string, value: string, expires: number) {
+    await mkdir(this.dir, { recursive: true })
+    await writeFile(this.file(key), JSON.stringify({ key, value, expires }))
+  }
+  async remove(key: string) {
+    await rm(this.file(key), { force: true })
+  }
+}
 
-  function infoLog(message: string, ...args: any[]) {
-    log.info(`[INFO] ${message}`, ...args)
+// 所有缓存共用的 LRU 存储，按条目数和总大小淘汰最久未使用的条目
+class LruCache {
+  private store = new Map<string, { value: unknown; expires: number; size: number }>()
+  private totalSize = 0
+  private stats = new Map<string, { hits: number; misses: number }>()
+
+  constructor(
+    private options: { maxEntries: number; maxBytes: number },
+    private storage?: CacheStorage,
+    private onError: (message: string, error: unknown) => void = () => {},
+  ) {}
+
+  // 创建带命名空间和过期时间的缓存视图
+  namespace<V>(name: string, ttlSec: number): CacheView<V> {
+    this.stats.set(name, { hits: 0, misses: 0 })
+    return new CacheView<V>(this, name, ttlSec)
   }
 
-  function warnLog(message: string, ...args: any[]) {
-    log.warn(`[WARN] ${message}`, ...args)
+  get(namespace: string, key: string): unknown {
+    const fullKey = `${namespace}/${key}`
+    const stat = this.stats.get(namespace)!
+    const item = this.lookup(fullKey)
+    if (!item) {
+      stat.misses++
+      return
+    }
+    // 重新插入，使其成为最近使用的条目
+    this.store.delete(fullKey)
+    this.store.set(fullKey, item)
+    stat.hits++
+    return item.value
   }
 
-  function profileUrl(id: string) {
-    return `${config.baseUrl}/${config.locale}/profile/${id}`
+  // 插件内部读取缓存，不计入命中统计，也不改变淘汰顺序
+  peek(namespace: string, key: string): unknown {
+    return this.lookup(`${namespace}/${key}`)?.value
   }
 
-  function playUrl(id: string) {
-    return `${config.baseUrl}/${config.locale}/profile/${id}/play`
+  set(namespace: string, key: string, value: unknown, ttlSec: number) {
+    if (ttlSec <= 0) return
+    const fullKey = `${namespace}/${key}`
+    const expires = Date.now() + ttlSec * 1000
+    const persist = this.storage?.accepts(value)
+    const serialized = persist ? serializeCacheValue(value) : undefined
+    const size = Buffer.isBuffer(value) ? value.length : Buffer.byteLength(serialized ?? serializeCacheValue(value))
+    this.insert(fullKey, value, expires, size)
+    if (persist) this.storage!.save(fullKey, serialized!, expires).catch(e => this.onError('缓存持久化失败', e))
   }
 
-  function battlelogUrl(id: string) {
-    return `${config.baseUrl}/${config.locale}/profile/${id}/battlelog`
+  delete(fullKey: string) {
+    const item = this.store.get(fullKey)
+    if (!item) return
+    this.store.delete(fullKey)
+    this.totalSize -= item.size
+    if (this.storage?.accepts(item.value)) {
+      this.storage.remove(fullKey).catch(e => this.onError('删除持久化缓存失败', e))
+    }
   }
 
-  function buildHeaders(): Record<string, string> {
-    const headers: Record<string, string> = {
-      'User-Agent': config.userAgent,
-      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-      'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8',
-      'Referer': `${config.baseUrl}/${config.locale}/`,
+  clearNamespace(namespace: string) {
+    for (const key of [...this.store.keys()]) {
+      if (key.startsWith(`${namespace}/`)) this.delete(key)
     }
-    if (runtimeCookie) headers['Cookie'] = runtimeCookie
-    return headers
   }
 
-  async function fetchHtml(url: string): Promise<string> {
-    debugLog('开始请求页面', url)
-    try {
-      const startTime = Date.now()
-      const html = await ctx.http.get(url, { headers: buildHeaders(), timeout: HTTP_TIMEOUT })
-      const endTime = Date.now()
-      debugLog(`页面请求完成，耗时 ${endTime - startTime}ms，页面大小 ${html.length} 字符`)
-      return html
-    } catch (e: any) {
-      const body = e?.response?.data
-      if (e?.response?.status) {
-        warnLog(`HTTP请求失败 ${e.response.status} for ${url}`)
+  // 清理所有已过期的条目
+  prune() {
+    const now = Date.now()
+    for (const [key, item] of [...this.store]) {
+      if (now > item.expires) this.delete(key)
+    }
+  }
+
+  // 从持久化后端恢复缓存
+  async restore() {
+    if (!this.storage) return 0
+    const entries = await this.storage.load()
+    entries.sort((a, b) => a.expires - b.expires)
+    for (const entry of entries) {
+      try {
+        const value = deserializeCacheValue(entry.value)
+        const size = Buffer.isBuffer(value) ? value.length : Buffer.byteLength(entry.value)
+        this.insert(entry.key, value, entry.expires, size)
+      } catch (e) {
+        this.onError('恢复缓存条目失败', e)
       }
-      if (typeof body === 'string') return body
-      throw e
     }
+    return this.store.size
   }
 
-  // 检测是否被重定向到登录页
-  function looksLikeLoginPage(html: string): boolean {
-    const text = html.toLowerCase()
-    // 更精确的登录页检测 - 只有同时包含登录相关词汇和登录表单/按钮时才认为是登录页
-    const hasLoginKeywords = /login|signin|登录|請登入|サインイン|sign in/.test(text)
-    const hasLoginForm = /type=[\"\']password[\"\']|login.?form|signin.?form|oauth|auth.?button/.test(text)
-    const hasProfileContent = /character_character_status|段位积分|league.?point|rank|profile/.test(text)
-    
-    // 如果有排位内容，就不是登录页
-    if (hasProfileContent) return false
-    
-    // 只有既有登录关键词又有登录表单时才认为是登录页
-    return hasLoginKeywords && hasLoginForm
+  // 只清空内存，保留持久化数据以便下次启动恢复
+  dispose() {
+    this.store.clear()
+    this.totalSize = 0
   }
 
-// 解析玩家搜索结果页面
-function parsePlayerSearchResults(html: string): PlayerSearchResult[] {
-  const results: PlayerSearchResult[] = []
-  
-  debugLog('开始解析搜索结果页面...')
-  debugLog(`HTML长度: ${html.length}`)
-  
-  // 方法1: 匹配 list_fighter_list 容器内的每个 li 元素
-  const fighterListRegex = /<ul class="list_fighter_list__[^"]*"[^>]*>([\s\S]*?)<\/ul>/
-  const listMatch = fighterListRegex.exec(html)
-  
-  if (listMatch) {
-    debugLog('找到 list_fighter_list 容器')
-    const listContent = listMatch[1]
-    debugLog(`list内容长度: ${listContent.length}`)
-    
-    // 匹配每个 li 项目 - 使用全局匹配
-    const liRegex = /<li[^>]*>[\s\S]*?<\/li>/g
-    const liMatches = listContent.match(liRegex) || []
-    debugLog(`找到 ${liMatches.length} 个 li 元素`)
-    
-    for (let i = 0; i < liMatches.length; i++) {
-      const liContent = liMatches[i]
-      debugLog(`处理第 ${i + 1} 个 li 元素`)
-      
-      // 跳过非玩家项目的li（比如表头、分隔符等）
-      if (liContent.includes('list_lp__') || liContent.includes('---积分') || liContent.includes('class="list_lp')) {
-        debugLog(`第 ${i + 1} 个li是非玩家项目，跳过`)
-        continue
-      }
-      
-      // 提取相对路径的profile URL和玩家ID
-      const hrefMatch = liContent.match(/href="(\/6\/buckler\/[^\/]+\/profile\/(\d+))"/)
-      if (!hrefMatch) {
-        debugLog(`第 ${i + 1} 个li未找到 profile 链接`)
-        debugLog(`li内容片段: ${liContent.substring(0, 300)}`)
-        continue
-      }
-      
-      const relativePath = hrefMatch[1]
-      const playerId = hrefMatch[2]
-      // 修正URL拼接 - config.baseUrl已经包含了主域名，所以直接拼接相对路径
-      const fullUrl = `https://www.streetfighter.com${relativePath}`
-      debugLog(`第 ${i + 1} 个li找到玩家ID: ${playerId}`)
-      debugLog(`第 ${i + 1} 个li相对路径: ${relativePath}`)
-      debugLog(`第 ${i + 1} 个li完整URL: ${fullUrl}`)
-      
-      // 提取玩家名称
-      const nameMatch = liContent.match(/<span class="list_name__[^"]*">([^<]+)<\/span>/)
-      if (!nameMatch) {
-        debugLog(`第 ${i + 1} 个li未找到玩家名称`)
-        continue
-      }
-      
-      const playerName = nameMatch[1].trim()
-      debugLog(`第 ${i + 1} 个li找到玩家名称: ${playerName}`)
-      
-      if (playerId && playerName) {
-        results.push({
-          playerId,
-          playerName,
-          url: fullUrl  // 直接使用完整URL
-        })
-        debugLog(`第 ${i + 1} 个li成功解析: ${playerName} (ID: ${playerId})`)
-      }
+  report() {
+    return {
+      entries: this.store.size,
+      bytes: this.totalSize,
+      namespaces: [...this.stats].map(([name, stat]) => ({ name, ...stat })),
     }
-  } else {
-    debugLog('未找到 list_fighter_list 容器')
   }
-  
-  // 方法2: 直接匹配整个HTML中的 profile 链接和玩家名称（更可靠）
-  debugLog('使用方法2：直接匹配整个HTML...')
-  
-  // 先找到所有的相对路径 profile 链接 - 扩展正则以捕获更多可能的链接格式
-  const profileRegexes = [
-    /href="(\/6\/buckler\/[^\/]+\/profile\/(\d+))"/g,  // 标准格式
-    /href="([^"]*\/profile\/(\d+)[^"]*)"/g,           // 更宽松的格式
-  ]
-  
-  const profileMatches = []
+
+  private lookup(fullKey: string) {
+    const item = this.store.get(fullKey)
+    if (!item) return
+    if (Date.now() <= item.expires) return item
+    this.delete(fullKey)
+  }
+
+  private insert(fullKey: string, value: unknown, expires: number, size: number) {
+    const previous = this.store.get(fullKey)
+    if (previous) {
+      this.store.delete(fullKey)
+      this.totalSize -= previous.size
+    }
+    this.store.set(fullKey, { value, expires, size })
+    this.totalSize += size
+    // Map 按插入顺序迭代，最前面的就是最久未使用的
+    for (const key of this.store.keys()) {
+      if (this.store.size <= this.options.maxEntries && this.totalSize <= this.options.maxBytes) break
+      if (key === fullKey) continue
+      this.delete(key)
+    }
+  }
+}
+
+// 单个命名空间的缓存视图，命名空间内只会写入 V 类型的值
+class CacheView<V> {
+  constructor(private cache: LruCache, private name: string, private ttlSec: number) {}
+  get(key: string): V | undefined {
+    return this.cache.get(this.name, key) as V | undefined
+  }
+  peek(key: string): V | undefined {
+    return this.cache.peek(this.name, key) as V | undefined
+  }
+  set(key: string, value: V) {
+    this.cache.set(this.name, key, value, this.ttlSec)
+  }
+  clear() {
+    this.cache.clearNamespace(this.name)
+  }
+}
+
+// 令牌桶限流器，每个键对应一个桶，桶满时与不存在等价，可以清理
+class RateLimiter {
+  private buckets = new Map<string, { tokens: number; updated: number; intervalMs: number; capacity: number }>()
+
+  // 尝试消耗一个令牌，成功返回 0，否则返回还需等待的秒数
+  take(key: string, intervalSec: number, capacity: number): number {
+    if (intervalSec <= 0) return 0
+    const now = Date.now()
+    const intervalMs = intervalSec * 1000
+    const bucket = this.buckets.get(key) ?? { tokens: capacity, updated: now, intervalMs, capacity }
+    // 配置可能在运行中变化，以最新的间隔和容量为准
+    bucket.intervalMs = intervalMs
+    bucket.capacity = capacity
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updated) / intervalMs)
+    bucket.updated = now
+    this.buckets.set(key, bucket)
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1
+      return 0
+    }
+    return Math.ceil((1 - bucket.tokens) * intervalSec)
+  }
+
+  prune() {
+    const now = Date.now()
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.tokens + (now - bucket.updated) / bucket.intervalMs >= bucket.capacity) this.buckets.delete(key)
+    }
+  }
+
+  clear() {
+    this.buckets.clear()
+  }
+}
+
+// 对外请求调度器：限制并发数与请求间隔，超出的请求排队；
+// 相同键的请求正在执行或排队时，后来者直接共用它的结果
+class RequestScheduler {
+  private running = 0
+  private lastStart = 0
+  private queue: Array<{ resolve: () => void; reject: (e: Error) => void }> = []
+  private inflight = new Map<string, Promise<unknown>>()
+  private timer?: NodeJS.Timeout
+
+  constructor(private options: { concurrency: number; intervalMs: number }) {}
+
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    // 相同键的请求来自同一个调用点，结果类型一致
+    const existing = this.inflight.get(key)
+    if (existing) return existing as Promise<T>
+    const promise = (async () => {
+      await this.acquire()
+      try {
+        return await task()
+      } finally {
+        this.running--
+        this.drain()
+      }
+    })()
+    this.inflight.set(key, promise)
+    promise.then(() => this.inflight.delete(key), () => this.inflight.delete(key))
+    return promise
+  }
+
+  // 新请求需要排在第几位，0 表示可以立即执行
+  queuePosition() {
+    if (!this.queue.length && this.running < this.options.concurrency) return 0
+    return this.queue.length + 1
+  }
+
+  dispose() {
+    clearTimeout(this.timer)
+    this.timer = undefined
+    for (const waiter of this.queue.splice(0)) waiter.reject(new Error('插件已停用'))
+    this.inflight.clear()
+  }
+
+  private acquire() {
+    return new Promise<void>((resolve, reject) => {
+      this.queue.push({ resolve, reject })
+      this.drain()
+    })
+  }
+
+  private drain() {
+    if (this.timer) return
+    while (this.queue.length && this.running < this.options.concurrency) {
+      const wait = this.lastStart + this.options.intervalMs - Date.now()
+      if (wait > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = undefined
+          this.drain()
+        }, wait)
+        return
+      }
+      this.running++
+      this.lastStart = Date.now()
+      this.queue.shift()!.resolve()
+    }
+  }
+}
+
+interface CookieEntry {
+  value: string
+  uses: number
+  loginPageStreak: number  // 连续遇到登录页的次数
+  benchedUntil: number     // 暂停使用的截止时间
+  dead: boolean            // 连续遇到登录页达到阈值后判定失效，直到检测到恢复
+  lastSuccess?: Date
+  lastFailure?: Date
+  failureReason?: string
+}
+
+type CookieResult = 'ok' | 'login' | 'blocked'
+
+// Cookie 池：轮流使用各个 Cookie，遇到登录页、403 或被拦截时暂停使用一段时间，
+// 同一 Cookie 连续遇到登录页达到阈值后判定失效
+class CookiePool {
+  entries: CookieEntry[] = []
+  private cursor = 0
+
+  constructor(private options: { benchMs: number; deadThreshold: number }) {}
+
+  reset(values: string[]) {
+    this.entries = [...new Set(values.map(v => v.trim()).filter(Boolean))].map(value => ({
+      value,
+      uses: 0,
+      loginPageStreak: 0,
+      benchedUntil: 0,
+      dead: false,
+    }))
+    this.cursor = 0
+  }
+
+  get allDead() {
+    return this.entries.length > 0 && this.entries.every(e => e.dead)
+  }
+
+  // 未失效的 Cookie 全部处于暂停期时，返回最早恢复的时间，否则返回 0
+  get pausedUntil() {
+    const alive = this.entries.filter(e => !e.dead)
+    const now = Date.now()
+    if (!alive.length || alive.some(e => e.benchedUntil <= now)) return 0
+    return Math.min(...alive.map(e => e.benchedUntil))
+  }
+
+  // 轮流选取未失效且未暂停的 Cookie，没有可用的 Cookie 时返回空
+  pick(): CookieEntry | undefined {
+    const now = Date.now()
+    for (let i = 0; i < this.entries.length; i++) {
+      const index = (this.cursor + i) % this.entries.length
+      const entry = this.entries[index]
+      if (entry.dead || entry.benchedUntil > now) continue
+      this.cursor = index + 1
+      entry.uses++
+      return entry
+    }
+  }
+
+  // 记录一次使用结果，返回该 Cookie 是否因此失效或恢复
+  report(entry: CookieEntry, result: CookieResult, reason?: string): 'dead' | 'recovered' | undefined {
+    // Cookie 池可能已被管理员替换
+    if (!this.entries.includes(entry)) return
+    if (result === 'ok') {
+      entry.lastSuccess = new Date()
+      entry.loginPageStreak = 0
+      entry.benchedUntil = 0
+      if (!entry.dead) return
+      entry.dead = false
+      return 'recovered'
+    }
+    entry.lastFailure = new Date()
+    entry.failureReason = reason
+    entry.benchedUntil = Date.now() + this.options.benchMs
+    if (result !== 'login') return
+    entry.loginPageStreak++
+    if (entry.dead || entry.loginPageStreak < this.options.deadThreshold) return
+    entry.dead = true
+    return 'dead'
+  }
+}
+
+interface PooledPage {
+  page: PuppeteerPage
+  context?: PuppeteerBrowserContext  // 页面独占的浏览器上下文，不支持时与其他页面共用 Cookie
+  uses: number
+  cookie?: string  // 页面当前已设置的 Cookie
+}
+
+// 预热的浏览器页面池：截图页面在请求之间复用，出错或使用次数达到上限后关闭重建
+class PagePool {
+  private idle: PooledPage[] = []
+  private disposed = false
+
+  constructor(
+    private create: () => Promise<PooledPage>,
+    private options: { size: number; maxUses: number },
+    private onError: (message: string, e: unknown) => void,
+  ) {}
+
+  // 取出一个空闲页面，确认页面仍可用；没有空闲页面时新建
+  async acquire(): Promise<PooledPage> {
+    while (this.idle.length) {
+      const pooled = this.idle.pop()!
+      if (await this.healthy(pooled)) return pooled
+      await this.close(pooled)
+    }
+    return this.create()
+  }
+
+  // 归还页面，出错、达到使用次数上限或池已满时直接关闭
+  async release(pooled: PooledPage, failed = false) {
+    pooled.uses++
+    if (failed || this.disposed || pooled.uses >= this.options.maxUses || this.idle.length >= this.options.size) {
+      return this.close(pooled)
+    }
+    try {
+      // 离开 Buckler 页面，避免空闲时继续运行页面脚本
+      await pooled.page.goto('about:blank')
+      this.idle.push(pooled)
+    } catch (e) {
+      await this.close(pooled)
+    }
+  }
+
+  async warm() {
+    while (!this.disposed && this.idle.length < this.options.size) {
+      const pooled = await this.create()
+      // 创建期间插件可能已停用
+      if (this.disposed) return this.close(pooled)
+      this.idle.push(pooled)
+    }
+  }
+
+  async dispose() {
+    this.disposed = true
+    await Promise.all(this.idle.splice(0).map(pooled => this.close(pooled)))
+  }
+
+  private async healthy(pooled: PooledPage) {
+    try {
+      await pooled.page.evaluate(() => document.readyState)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  private async close(pooled: PooledPage) {
+    try {
+      await (pooled.context ?? pooled.page).close()
+    } catch (e) {
+      this.onError('关闭浏览器页面失败', e)
+    }
+  }
+}
+
+// 把 Cookie 请求头拆成浏览器页面使用的 Cookie 列表
+function parseCookieString(cookie: string) {
+  return cookie.split(';').map(item => {
+    const [name, ...valueParts] = item.trim().split('=')
+    const value = valueParts.join('=') // 处理值中包含=的情况
+    return {
+      name: name.trim(),
+      value: value?.trim() || '',
+      domain: '.streetfighter.com',
+    }
+  }).filter(item => item.name && item.value)
+}
+
+// 在日志中脱敏 Cookie
+function redactCookie(c?: string) {
+  if (!c) return ''
+  const n = Math.min(8, Math.floor(c.length / 4))
+  return c.slice(0, n) + '…' + c.slice(-n)
+}
+
+// 各语言页面的文本差异，解析时优先依赖页面结构，这里只保存结构无法区分的部分
+interface LocaleTexts {
+  acceptLanguage: string
+  all: string          // 胜率页中“全部”一行的名称
+  wins: string         // 胜率页中胜场数旁的文字
+  battles: string      // 胜率页中对战场数旁的文字
+  profile: string      // 资料页导航中紧挨玩家名称的文字
+  settings: string
+  navWords: string[]   // 资料页导航中的文字，不会是玩家名称
+}
+
+const LOCALE_TEXTS: Record<Config['locale'], LocaleTexts> = {
+  'zh-hans': {
+    acceptLanguage: 'zh-CN,zh;q=0.9,en;q=0.8',
+    all: '全部',
+    wins: '胜',
+    battles: '对战',
+    profile: '简介',
+    settings: '设置',
+    navWords: ['设置', '账号', '简介', '格斗', '排位', '退出', '登录', '资料', '电竞', '支持', '包括', '服务', '独有'],
+  },
+  'zh-hant': {
+    acceptLanguage: 'zh-TW,zh;q=0.9,en;q=0.8',
+    all: '全部',
+    wins: '勝',
+    battles: '對戰',
+    profile: '簡介',
+    settings: '設定',
+    navWords: ['設定', '帳號', '簡介', '格鬥', '排位', '登出', '登入', '資料', '電競', '支援'],
+  },
+  'en-us': {
+    acceptLanguage: 'en-US,en;q=0.9',
+    all: 'All',
+    wins: 'Wins',
+    battles: 'Matches',
+    profile: 'Profile',
+    settings: 'Settings',
+    navWords: ['Settings', 'Account', 'Profile', 'Fighting', 'Ranked', 'Logout', 'Login', 'Esports', 'Support'],
+  },
+  'ja-jp': {
+    acceptLanguage: 'ja-JP,ja;q=0.9,en;q=0.8',
+    all: 'すべて',
+    wins: '勝',
+    battles: '対戦',
+    profile: 'プロフィール',
+    settings: '設定',
+    navWords: ['設定', 'アカウント', 'プロフィール', 'ランク', 'ログアウト', 'ログイン', 'サポート'],
+  },
+  'ko-kr': {
+    acceptLanguage: 'ko-KR,ko;q=0.9,en;q=0.8',
+    all: '전체',
+    wins: '승',
+    battles: '대전',
+    profile: '프로필',
+    settings: '설정',
+    navWords: ['설정', '계정', '프로필', '랭크', '로그아웃', '로그인', '지원'],
+  },
+}
+
+// 取文本中紧挨着标签的数字：依次尝试“标签：数字”（如 对战：34）、“数字标签”（如 12胜）、标签后的数字
+function numberNearLabel(text: string, label: string): number | undefined {
+  const escaped = label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const match = text.match(new RegExp(`${escaped}\\s*[:：]\\s*(\\d[\\d,]*)`, 'i'))
+    || text.match(new RegExp(`(\\d[\\d,]*)\\s*${escaped}`, 'i'))
+    || text.match(new RegExp(`${escaped}[^\\d/]{0,6}?(\\d[\\d,]*)`, 'i'))
+  return match ? parseNumber(match[1]) : undefined
+}
+
+// 解析页面中的整数，去除千分位分隔符
+function parseNumber(text?: string): number {
+  return text ? parseInt(text.replace(/[,.\s]/g, '')) || 0 : 0
+}
+
+export function apply(ctx: Context, config: Config) {
+  const log = logger
+
+  // 创建专门的数据表来存储 SF6 玩家ID绑定
+  ctx.model.extend('streetfighter6_binding', {
+    id: 'unsigned',
+    aid: { type: 'unsigned', initial: 0 },
+    userId: 'string',
+    playerId: 'string',
+    playerName: { type: 'string', initial: '' },
+    alias: { type: 'string', initial: '' },
+    isDefault: { type: 'boolean', initial: false },
+  }, {
+    primary: 'id',
+    autoInc: true,
+  })
+
+  // 段位快照表，记录每次成功获取的排位数据，用于段位趋势
+  ctx.model.extend('streetfighter6_snapshot', {
+    id: 'unsigned',
+    playerId: 'string',
+    character: 'string',
+    rankName: 'string',
+    rankPoints: 'integer',
+    masterRate: 'integer',
+    wins: 'integer',
+    battles: 'integer',
+    isMain: 'boolean',
+    createdAt: 'timestamp',
+  }, {
+    primary: 'id',
+    autoInc: true,
+  })
+
+  // 缓存持久化表，仅在缓存持久化方式为数据库时使用
+  ctx.model.extend('streetfighter6_cache', {
+    key: 'string',
+    value: 'text',
+    expires: 'timestamp',
+  }, {
+    primary: 'key',
+  })
+
+  // 运行时设置表，保存管理员通过命令设置的 Cookie 等
+  ctx.model.extend('streetfighter6_setting', {
+    key: 'string',
+    value: 'text',
+    updatedAt: 'timestamp',
+  }, {
+    primary: 'key',
+  })
+
+  // 段位变动通知的订阅表，每行表示一个频道订阅了一个玩家
+  ctx.model.extend('streetfighter6_subscription', {
+    id: 'unsigned',
+    platform: 'string',
+    selfId: 'string',
+    channelId: 'string',
+    playerId: 'string',
+    createdAt: 'timestamp',
+    notifyCharacter: { type: 'string', initial: '' },
+    notifyRankName: { type: 'string', initial: '' },
+    notifyRankPoints: { type: 'integer', initial: 0 },
+    notifyMasterRate: { type: 'integer', initial: 0 },
+  }, {
+    primary: 'id',
+    autoInc: true,
+  })
+
+  // 配置中的 Cookie；管理员通过命令设置后以数据库中的为准
+  const configCookies = [config.cookie?.trim() || process.env.SF6_COOKIE, ...config.cookies].filter(Boolean) as string[]
+  const cookiePool = new CookiePool({
+    benchMs: config.cookieBenchMinutes * 60 * 1000,
+    deadThreshold: config.cookieDeadThreshold,
+  })
+  cookiePool.reset(configCookies)
+  const cookieSource: { source: 'config' | 'database'; updatedAt?: Date } = { source: 'config' }
+
+  // 所有缓存共用一个 LRU 存储
+  const cacheStorage = config.cachePersistence === 'database'
+    ? new DatabaseCacheStorage(ctx)
+    : config.cachePersistence === 'file'
+      ? new FileCacheStorage(resolve(ctx.baseDir, 'data/streetfighter6-rank/cache'))
+      : undefined
+  const cache = new LruCache({
+    maxEntries: config.cacheMaxEntries,
+    maxBytes: config.cacheMaxSizeMB * 1024 * 1024,
+  }, cacheStorage, (message, e) => warnLog(`${message}:`, e))
+  const rankCache = cache.namespace<RankData>('rank', config.textCacheTTL)
+  const screenshotCache = cache.namespace<Buffer>('screenshot', config.screenshotCacheTTL)
+  const winRateCache = cache.namespace<WinRateData>('winrate', config.textCacheTTL)
+  const winRateScreenshotCache = cache.namespace<Buffer>('winrate_screenshot', config.screenshotCacheTTL)
+  const battlelogCache = cache.namespace<BattlelogData>('battlelog', config.textCacheTTL)
+  const battlelogScreenshotCache = cache.namespace<Buffer>('battlelog_screenshot', config.screenshotCacheTTL)
+  const playerSearchCache = cache.namespace<PlayerSearchResult[]>('search', config.textCacheTTL)
+  const playerSearchScreenshotCache = cache.namespace<Buffer>('search_screenshot', config.screenshotCacheTTL)
+  const rateLimiter = new RateLimiter()
+  const pagePool = new PagePool(() => createCapturePage(), {
+    size: config.pagePoolSize,
+    maxUses: config.pageMaxUses,
+  }, (message, e) => warnLog(`${message}:`, e))
+  const scheduler = new RequestScheduler({
+    concurrency: config.requestConcurrency,
+    intervalMs: config.requestInterval,
+  })
+
+  // 增强日志输出
+  function debugLog(message: string, ...args: any[]) {
+    if (config.debug) {
+      log.info(`[DEBUG] ${message}`, ...args)
+    }
+  }
+
+  function infoLog(message: string, ...args: any[]) {
+    log.info(`[INFO] ${message}`, ...args)
+  }
+
+  function warnLog(message: string, ...args: any[]) {
+    log.warn(`[WARN] ${message}`, ...args)
+  }
+
+  // 启动时恢复持久化的缓存，并定期清理过期条目
+  ctx.on('ready', async () => {
+    try {
+      const restored = await cache.restore()
+      if (restored) infoLog(`已恢复 ${restored} 条缓存`)
+    } catch (e) {
+      warnLog('恢复缓存失败:', e)
+    }
+  })
+  ctx.setInterval(() => cache.prune(), 10 * 60 * 1000)
+
+  // 管理员通过命令设置的 Cookie 优先于配置；载入后再预热截图页面，使页面带上最终使用的 Cookie
+  ctx.on('ready', async () => {
+    try {
+      const [setting] = await ctx.database.get('streetfighter6_setting', { key: 'cookie' })
+      if (setting?.value) {
+        cookiePool.reset(setting.value.split('\n'))
+        cookieSource.source = 'database'
+        cookieSource.updatedAt = setting.updatedAt
+        infoLog(`已载入管理员设置的 ${cookiePool.entries.length} 个 Cookie`)
+      }
+    } catch (e) {
+      warnLog('载入 Cookie 失败:', e)
+    }
+
+    if (!ctx.puppeteer || !config.enableScreenshotOutput) return
+    try {
+      await pagePool.warm()
+    } catch (e) {
+      warnLog('预热截图页面失败:', e)
+    }
+  })
+  ctx.setInterval(() => rateLimiter.prune(), 10 * 60 * 1000)
+
+  function profileUrl(id: string) {
+    return `${config.baseUrl}/${config.locale}/profile/${id}`
+  }
+
+  function playUrl(id: string) {
+    return `${config.baseUrl}/${config.locale}/profile/${id}/play`
+  }
+
+  function battlelogUrl(id: string) {
+    return `${config.baseUrl}/${config.locale}/profile/${id}/battlelog`
+  }
+
+  function searchUrl(playerName: string) {
+    return `${config.baseUrl}/${config.locale}/fighterslist/search/result?fighter_id=${encodeURIComponent(playerName)}&page=1`
+  }
+
+  function buildHeaders(cookie?: string): Record<string, string> {
+    const headers: Record<string, string> = {
+      'User-Agent': config.userAgent,
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+      'Accept-Language': LOCALE_TEXTS[config.locale].acceptLanguage,
+      'Referer': `${config.baseUrl}/${config.locale}/`,
+    }
+    if (cookie) headers['Cookie'] = cookie
+    return headers
+  }
+
+  // 经调度器请求 Buckler 页面，轮流使用 Cookie 池中的 Cookie 并记录结果。
+  // 指定 probe 时固定使用该 Cookie，即使它已判定失效，用于检测 Cookie 是否恢复
+  function requestPage(url: string, probe?: CookieEntry): Promise<string> {
+    const key = probe ? `probe#${cookiePool.entries.indexOf(probe)} ${url}` : `GET ${url}`
+    return scheduler.run(key, async () => {
+      const entry = probe ?? takeCookie()
+      let html: string
+      try {
+        html = await ctx.http.get(url, { headers: buildHeaders(entry?.value), timeout: config.httpTimeout })
+      } catch (e: any) {
+        const body = e?.response?.data
+        if (e?.response?.status === 403) {
+          noteCookieResult(entry, 'blocked', 'HTTP 403')
+        } else if (typeof body === 'string' && looksLikeBlockedHtml(body)) {
+          noteCookieResult(entry, 'blocked', '访问被拒绝')
+        }
+        throw e
+      }
+      // 拦截或验证页面也可能以 200 返回
+      if (looksLikeBlockedHtml(html)) {
+        noteCookieResult(entry, 'blocked', '访问被拒绝')
+        throw new Error('访问被拒绝：可能是Cookie无效或网站检测到自动化访问。')
+      }
+      noteCookieResult(entry, looksLikeLoginPage(html) ? 'login' : 'ok', '遇到登录页')
+      return html
+    })
+  }
+
+  async function fetchHtml(url: string, probe?: CookieEntry): Promise<string> {
+    if (!probe) ensureCookieAlive()
+    debugLog('开始请求页面', url)
+    try {
+      const startTime = Date.now()
+      const html = await requestPage(url, probe)
+      const endTime = Date.now()
+      debugLog(`页面请求完成，耗时 ${endTime - startTime}ms，页面大小 ${html.length} 字符`)
+      return html
+    } catch (e: any) {
+      const body = e?.response?.data
+      if (e?.response?.status) {
+        warnLog(`HTTP请求失败 ${e.response.status} for ${url}`)
+      }
+      // 玩家ID不存在时 Buckler 返回 404
+      if (e?.response?.status === 404) throw new Error('未找到该玩家，请检查玩家ID是否正确。')
+      if (typeof body === 'string') return body
+      throw e
+    }
+  }
+
+  function cookieLabel(entry: CookieEntry) {
+    return `#${cookiePool.entries.indexOf(entry) + 1}`
+  }
+
+  // 记录 Cookie 的使用结果，Cookie 失效或恢复时通知管理员
+  function noteCookieResult(entry: CookieEntry | undefined, result: CookieResult, reason?: string) {
+    if (!entry) return
+    const event = cookiePool.report(entry, result, reason)
+    if (result !== 'ok') {
+      debugLog(`Cookie ${cookieLabel(entry)} ${reason}，暂停使用 ${config.cookieBenchMinutes} 分钟`)
+    }
+    if (event === 'dead') {
+      warnLog(`Cookie ${cookieLabel(entry)} 连续 ${entry.loginPageStreak} 次遇到登录页，已判定失效: ${redactCookie(entry.value)}`)
+      notifyCookieAdmins(cookiePool.allDead
+        ? `⚠️ SF6 插件的 Buckler 登录 Cookie ${cookieLabel(entry)} 已失效，所有 Cookie 均已失效，查询功能暂停。\n请使用 sf6cookie设置 更换 Cookie。`
+        : `⚠️ SF6 插件的 Buckler 登录 Cookie ${cookieLabel(entry)} 已失效，已停止使用。\n请使用 sf6cookie设置 更换 Cookie。`)
+    } else if (event === 'recovered') {
+      infoLog(`Cookie ${cookieLabel(entry)} 已恢复有效`)
+      notifyCookieAdmins(`✅ SF6 插件的 Buckler 登录 Cookie ${cookieLabel(entry)} 已恢复有效。`)
+    }
+  }
+
+  // 所有 Cookie 都已判定失效时直接失败，避免每次查询都等到页面超时
+  function ensureCookieAlive() {
+    if (cookiePool.allDead) throw new Error('登录 Cookie 已失效，请联系管理员更新 Cookie。')
+    const pausedUntil = cookiePool.pausedUntil
+    if (pausedUntil) {
+      throw new Error(`登录 Cookie 暂停中，请约 ${Math.ceil((pausedUntil - Date.now()) / 60000)} 分钟后再试。`)
+    }
+  }
+
+  // 轮换取出一个可用的 Cookie；未配置 Cookie 时为空，全部失效或暂停时直接失败
+  function takeCookie(): CookieEntry | undefined {
+    if (!cookiePool.entries.length) return
+    ensureCookieAlive()
+    return cookiePool.pick()
+  }
+
+  // 为截图页面设置轮换到的 Cookie，返回所用的 Cookie 以便记录结果
+  async function setPageCookie(pooled: PooledPage, entry: CookieEntry | undefined) {
+    if (!entry) return
+    // 共用浏览器 Cookie 的页面可能被其他页面改写，每次都重新设置
+    if (pooled.cookie !== entry.value || !pooled.context) {
+      // 先清除之前的 Cookie，避免新旧 Cookie 混用
+      const previous = await pooled.page.cookies(config.baseUrl)
+      if (previous.length) await pooled.page.deleteCookie(...previous)
+      const cookies = parseCookieString(entry.value)
+      if (cookies.length > 0) {
+        await pooled.page.setCookie(...cookies)
+        debugLog(`成功设置 ${cookies.length} 个Cookie（${cookieLabel(entry)}）`)
+      }
+      pooled.cookie = entry.value
+    }
+    // 共用浏览器 Cookie 时，并发的截图可能改写了 Cookie，无法确定页面实际使用的是哪个，不记录结果
+    return pooled.context ? entry : undefined
+  }
+
+  async function notifyCookieAdmins(content: string) {
+    for (const target of config.cookieAlertTargets) {
+      const index = target.indexOf(':')
+      const platform = target.slice(0, index)
+      const userId = target.slice(index + 1)
+      const bot = index > 0 && ctx.bots.find(b => b.platform === platform)
+      if (!bot || !userId) {
+        warnLog(`无法通知管理员 ${target}：格式应为 平台:用户ID，且需要该平台的机器人`)
+        continue
+      }
+      try {
+        await bot.sendPrivateMessage(userId, content)
+      } catch (e) {
+        warnLog(`通知管理员 ${target} 失败:`, e)
+      }
+    }
+  }
+
+  // 检测用的玩家ID：配置中指定的，否则任选一个已绑定的
+  async function getProbePlayerId(): Promise<string | undefined> {
+    const id = config.cookieProbePlayerId?.trim()
+    if (id) return id
+    const [binding] = await ctx.database.get('streetfighter6_binding', {}, { limit: 1 })
+    return binding?.playerId
+  }
+
+  // 定时用每个 Cookie 访问一个资料页，失效后也依靠它发现 Cookie 恢复
+  async function checkCookieHealth() {
+    if (!cookiePool.entries.length) return
+    const id = await getProbePlayerId()
+    if (!id) {
+      debugLog('没有可用于检测 Cookie 的玩家ID，跳过本次检测')
+      return
+    }
+    for (const entry of cookiePool.entries) {
+      try {
+        await requestPage(profileUrl(id), entry)
+      } catch (e) {
+        debugLog(`定时检测 Cookie ${cookieLabel(entry)} 请求失败:`, e)
+      }
+    }
+  }
+
+  if (config.cookieCheckInterval > 0) {
+    ctx.setInterval(() => checkCookieHealth(), config.cookieCheckInterval * 60 * 1000)
+  }
+
+  // 保存管理员设置的 Cookie（每行一个），传入空列表时恢复使用配置中的 Cookie
+  async function saveRuntimeCookies(values: string[]) {
+    const updatedAt = new Date()
+    if (values.length) {
+      await ctx.database.upsert('streetfighter6_setting', [{ key: 'cookie', value: values.join('\n'), updatedAt }])
+      cookiePool.reset(values)
+      cookieSource.source = 'database'
+    } else {
+      await ctx.database.remove('streetfighter6_setting', { key: 'cookie' })
+      cookiePool.reset(configCookies)
+      cookieSource.source = 'config'
+    }
+    cookieSource.updatedAt = updatedAt
+  }
+
+  // 检测 HTTP 响应是否为拒绝访问页
+  function looksLikeBlockedHtml(html: string): boolean {
+    const title = html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1] ?? ''
+    const text = html.replace(/<(script|style)[\s\S]*?<\/\1>/gi, '').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ')
+    return looksLikeBlockedPage(title, text.trim())
+  }
+
+  // 检测是否被重定向到登录页
+  function looksLikeLoginPage(html: string): boolean {
+    const text = html.toLowerCase()
+    // 更精确的登录页检测 - 只有同时包含登录相关词汇和登录表单/按钮时才认为是登录页
+    const hasLoginKeywords = /login|signin|登录|請登入|サインイン|sign in/.test(text)
+    const hasLoginForm = /type=[\"\']password[\"\']|login.?form|signin.?form|oauth|auth.?button/.test(text)
+    const hasProfileContent = /character_character_status|段位积分|league.?point|rank|profile/.test(text)
+    
+    // 如果有排位内容，就不是登录页
+    if (hasProfileContent) return false
+    
+    // 只有既有登录关键词又有登录表单时才认为是登录页
+    return hasLoginKeywords && hasLoginForm
+  }
+
+  // ===== Next.js 页面数据 =====
+  // Buckler 是 Next.js 页面，完整的页面状态以 JSON 形式内嵌在 __NEXT_DATA__ 中，
+  // 其字段名不随部署变化，因此优先从这里取数据，正则解析 HTML 只作为兜底。
+
+  // 提取 __NEXT_DATA__ 中的 pageProps
+  function extractNextData(html: string): NextPageProps | undefined {
+    const match = html.match(/<script id="__NEXT_DATA__" type="application\/json"[^>]*>([\s\S]*?)<\/script>/)
+    if (!match) {
+      debugLog('页面中未找到 __NEXT_DATA__')
+      return
+    }
+    try {
+      return JSON.parse(match[1])?.props?.pageProps
+    } catch (e) {
+      debugLog('__NEXT_DATA__ 解析失败:', e)
+    }
+  }
+
+  // 取第一个有效数字
+  function pickNumber(...values: unknown[]): number | undefined {
+    for (const value of values) {
+      if (typeof value === 'number' && Number.isFinite(value)) return value
+      if (typeof value === 'string' && /^[\d,]+$/.test(value)) return parseNumber(value)
+    }
+  }
+
+  // 对战记录中 round_results 的编码
+  const ROUND_RESULT_MARKS: Record<number, string> = {
+    0: 'L', 1: 'V', 2: 'C', 3: 'T', 4: 'D', 5: 'P', 6: 'SA', 7: 'CA', 8: 'OD',
+  }
+
+  function rankDataFromNextData(props: NextPageProps | undefined, playerId: string): RankData | undefined {
+    const banner = props?.fighter_banner_info
+    if (!banner) return
+    const league: NextLeagueInfo = banner.favorite_character_league_info || {}
+    const character = banner.favorite_character_name
+    const rankPoints = pickNumber(league.league_point)
+    if (!character || rankPoints === undefined) return
+
+    // 非 Master 段位时 master_rating 为 0
+    const masterRate = pickNumber(league.master_rating)
+    const isMaster = masterRate > 0
+
+    const leagues: CharacterLeague[] = []
+    const list = props.play?.character_league_infos || props.character_league_infos
+    if (Array.isArray(list)) {
+      for (const item of list) {
+        const info = item.league_info || item
+        const points = pickNumber(info.league_point)
+        // 未进行过定级赛的角色积分为负数
+        if (!item.character_name || points === undefined || points < 0) continue
+        const masterRate = pickNumber(info.master_rating)
+        leagues.push({
+          character: item.character_name,
+          rankName: info.league_rank_info?.league_rank_name || '未知段位',
+          rankPoints: points,
+          masterRate: masterRate > 0 ? masterRate : undefined,
+          isMain: item.character_name === character,
+        })
+      }
+    }
+
+    return {
+      playerId,
+      playerName: banner.personal_info?.fighter_id,
+      character,
+      rankName: league.league_rank_info?.league_rank_name || '未知段位',
+      rankPoints,
+      fightingPoints: pickNumber(banner.favorite_character_play_point?.fighting_ground, props.play?.fighting_points) || 0,
+      masterRate: isMaster ? masterRate : undefined,
+      masterLeague: isMaster ? league.master_league_info?.master_league_name || league.master_league_name || undefined : undefined,
+      masterRanking: isMaster ? pickNumber(league.master_rating_ranking) || undefined : undefined,
+      title: banner.title_data?.title_data_val || '无称号',
+      leagues,
+      url: profileUrl(playerId),
+    }
+  }
+
+  function winRateDataFromNextData(props: NextPageProps | undefined, playerId: string): WinRateData | undefined {
+    const list = props?.play?.character_win_rates
+    if (!Array.isArray(list) || list.length === 0) return
+
+    const all = LOCALE_TEXTS[config.locale].all
+    const characters: CharacterWinRate[] = []
+    let total: CharacterWinRate | undefined
+    for (const item of list) {
+      const wins = pickNumber(item.win_count) || 0
+      const battles = pickNumber(item.battle_count) || 0
+      const entry = {
+        character: item.character_name || item.character_alpha || '未知',
+        wins,
+        battles,
+        winRate: battles ? wins / battles * 100 : 0,
+      }
+      if (entry.character === all) total = entry
+      else characters.push(entry)
+    }
+
+    const totalWins = total?.wins ?? characters.reduce((sum, c) => sum + c.wins, 0)
+    const totalBattles = total?.battles ?? characters.reduce((sum, c) => sum + c.battles, 0)
+    return {
+      playerId,
+      playerName: props.fighter_banner_info?.personal_info?.fighter_id,
+      totalWins,
+      totalBattles,
+      winRate: totalBattles ? totalWins / totalBattles * 100 : 0,
+      characters,
+      url: playUrl(playerId),
+    }
+  }
+
+  function playerSearchResultsFromNextData(props: NextPageProps | undefined): PlayerSearchResult[] | undefined {
+    const list = props?.fighter_banner_list
+    if (!Array.isArray(list)) return
+    return list
+      .map(item => item?.personal_info)
+      .filter(info => info?.short_id && info?.fighter_id)
+      .map(info => ({
+        playerId: String(info.short_id),
+        playerName: info.fighter_id,
+        url: profileUrl(String(info.short_id)),
+      }))
+  }
+
+  function battlelogFromNextData(props: NextPageProps | undefined, playerId: string): BattlelogData | undefined {
+    const list = props?.replay_list
+    if (!Array.isArray(list)) return
+
+    const records: BattleRecord[] = list.map(replay => {
+      const p1: NextReplayPlayer = replay.player1_info || {}
+      const p2: NextReplayPlayer = replay.player2_info || {}
+      const [self, opponent] = String(p2.player?.short_id) === playerId ? [p2, p1] : [p1, p2]
+      const selfRounds: string[] = (self.round_results || []).map(r => ROUND_RESULT_MARKS[r] || String(r))
+      const opponentRounds: string[] = (opponent.round_results || []).map(r => ROUND_RESULT_MARKS[r] || String(r))
+      const selfWins = selfRounds.filter(r => r !== 'L').length
+      const opponentWins = opponentRounds.filter(r => r !== 'L').length
+      const uploadedAt = pickNumber(replay.uploaded_at)
+
+      return {
+        opponentId: String(opponent.player?.short_id || ''),
+        opponentName: opponent.player?.fighter_id || '未知',
+        playerCharacter: self.character_name || '未知',
+        opponentCharacter: opponent.character_name || '未知',
+        controlType: self.battle_input_type_name || '',
+        matchType: replay.replay_battle_type_name || '',
+        playerRounds: selfRounds,
+        opponentRounds,
+        result: selfWins > opponentWins ? 'win' : selfWins < opponentWins ? 'lose' : 'draw',
+        playerLp: pickNumber(self.league_point),
+        opponentLp: pickNumber(opponent.league_point),
+        playedAt: uploadedAt ? uploadedAt * 1000 : undefined,
+      }
+    })
+
+    fillLpChanges(records)
+    return {
+      playerId,
+      playerName: props.fighter_banner_info?.personal_info?.fighter_id,
+      records,
+      url: battlelogUrl(playerId),
+    }
+  }
+
+// 解析玩家搜索结果页面
+function parsePlayerSearchResults(html: string): PlayerSearchResult[] {
+  const results: PlayerSearchResult[] = []
+  
+  debugLog('开始解析搜索结果页面...')
+  debugLog(`HTML长度: ${html.length}`)
+
+  const fromNextData = playerSearchResultsFromNextData(extractNextData(html))
+  if (fromNextData) {
+    debugLog(`从 __NEXT_DATA__ 解析到 ${fromNextData.length} 个玩家`)
+    return fromNextData
+  }
+  debugLog('__NEXT_DATA__ 不可用，使用正则解析 HTML')
+  
+  // 方法1: 匹配 list_fighter_list 容器内的每个 li 元素
+  const fighterListRegex = /<ul class="list_fighter_list__[^"]*"[^>]*>([\s\S]*?)<\/ul>/
+  const listMatch = fighterListRegex.exec(html)
+  
+  if (listMatch) {
+    debugLog('找到 list_fighter_list 容器')
+    const listContent = listMatch[1]
+    debugLog(`list内容长度: ${listContent.length}`)
+    
+    // 匹配每个 li 项目 - 使用全局匹配
+    const liRegex = /<li[^>]*>[\s\S]*?<\/li>/g
+    const liMatches = listContent.match(liRegex) || []
+    debugLog(`找到 ${liMatches.length} 个 li 元素`)
+    
+    for (let i = 0; i < liMatches.length; i++) {
+      const liContent = liMatches[i]
+      debugLog(`处理第 ${i + 1} 个 li 元素`)
+      
+      // 跳过非玩家项目的li（比如表头、分隔符等）
+      if (liContent.includes('list_lp__') || liContent.includes('---积分') || liContent.includes('class="list_lp')) {
+        debugLog(`第 ${i + 1} 个li是非玩家项目，跳过`)
+        continue
+      }
+      
+      // 提取相对路径的profile URL和玩家ID
+      const hrefMatch = liContent.match(/href="(\/6\/buckler\/[^\/]+\/profile\/(\d+))"/)
+      if (!hrefMatch) {
+        debugLog(`第 ${i + 1} 个li未找到 profile 链接`)
+        debugLog(`li内容片段: ${liContent.substring(0, 300)}`)
+        continue
+      }
+      
+      const relativePath = hrefMatch[1]
+      const playerId = hrefMatch[2]
+      // 修正URL拼接 - config.baseUrl已经包含了主域名，所以直接拼接相对路径
+      const fullUrl = `https://www.streetfighter.com${relativePath}`
+      debugLog(`第 ${i + 1} 个li找到玩家ID: ${playerId}`)
+      debugLog(`第 ${i + 1} 个li相对路径: ${relativePath}`)
+      debugLog(`第 ${i + 1} 个li完整URL: ${fullUrl}`)
+      
+      // 提取玩家名称
+      const nameMatch = liContent.match(/<span class="list_name__[^"]*">([^<]+)<\/span>/)
+      if (!nameMatch) {
+        debugLog(`第 ${i + 1} 个li未找到玩家名称`)
+        continue
+      }
+      
+      const playerName = nameMatch[1].trim()
+      debugLog(`第 ${i + 1} 个li找到玩家名称: ${playerName}`)
+      
+      if (playerId && playerName) {
+        results.push({
+          playerId,
+          playerName,
+          url: fullUrl  // 直接使用完整URL
+        })
+        debugLog(`第 ${i + 1} 个li成功解析: ${playerName} (ID: ${playerId})`)
+      }
+    }
+  } else {
+    debugLog('未找到 list_fighter_list 容器')
+  }
+  
+  // 方法2: 直接匹配整个HTML中的 profile 链接和玩家名称（更可靠）
+  debugLog('使用方法2：直接匹配整个HTML...')
+  
+  // 先找到所有的相对路径 profile 链接 - 扩展正则以捕获更多可能的链接格式
+  const profileRegexes = [
+    /href="(\/6\/buckler\/[^\/]+\/profile\/(\d+))"/g,  // 标准格式
+    /href="([^"]*\/profile\/(\d+)[^"]*)"/g,           // 更宽松的格式
+  ]
+  
+  const profileMatches = []
   
   for (const profileRegex of profileRegexes) {
     profileRegex.lastIndex = 0 // 重置正则状态
@@ -379,12 +1688,9 @@ function parsePlayerSearchResults(html: string): PlayerSearchResult[] {
 
     debugLog(`开始搜索玩家: ${playerName}`)
     
-    // URL编码玩家名称
-    const encodedName = encodeURIComponent(playerName)
-    const searchUrl = `${config.baseUrl}/${config.locale}/fighterslist/search/result?fighter_id=${encodedName}&page=1`
-    
+    ensureCookieAlive()
     try {
-      const html = await ctx.http.get(searchUrl, { headers: buildHeaders(), timeout: HTTP_TIMEOUT })
+      const html = await requestPage(searchUrl(playerName))
       debugLog(`获取到HTML，长度: ${html.length}`)
       
       if (looksLikeLoginPage(html)) {
@@ -402,681 +1708,1485 @@ function parsePlayerSearchResults(html: string): PlayerSearchResult[] {
     }
   }
 
-  // 截取玩家搜索结果页面
-  async function takePlayerSearchScreenshot(playerName: string): Promise<Buffer> {
-    const cacheKey = `search_screenshot:${playerName}`
-    const cached = playerSearchScreenshotCache.get(cacheKey)
+  // 解析排位积分页面
+  function parseRankData(html: string, playerId: string): RankData {
+    const url = profileUrl(playerId)
+
+    const fromNextData = rankDataFromNextData(extractNextData(html), playerId)
+    if (fromNextData) {
+      if (fromNextData.rankName === '未知段位') {
+        fromNextData.rankName = html.match(/<img alt="([^"]+)"[^>]*src="[^"]*\/rank\/rank\d+_s\.png"/)?.[1] || '未知段位'
+      }
+      debugLog('从 __NEXT_DATA__ 解析排位数据')
+      return fromNextData
+    }
+    debugLog('__NEXT_DATA__ 不可用，使用正则解析 HTML')
+    
+    // 提取玩家名称 - 从特定的HTML元素中提取
+    let playerName: string | undefined
+    const texts = LOCALE_TEXTS[config.locale]
+    // 导航中的文字和站点固定文字都不是玩家名称
+    const isNavWord = (candidate: string) => /^(CFN|CAPCOM|STREET|FIGHTER|UTC)$/i.test(candidate)
+      || candidate.toLowerCase() === config.locale
+      || texts.navWords.some(word => word.toLowerCase() === candidate.toLowerCase())
+    
+    // 方法1: 从status_name元素中提取（最准确的方法）
+    const statusNameMatch = html.match(/<span class="status_name__[^"]*">([^<]+)<\/span>/)
+    if (statusNameMatch && statusNameMatch[1]) {
+      playerName = statusNameMatch[1].trim()
+      debugLog(`方法1(status_name)提取到玩家名称: ${playerName}`)
+    }
+    
+    // 方法2: 如果方法1失败，尝试更宽松的class匹配
+    if (!playerName) {
+      const nameClassMatch = html.match(/<span class="[^"]*name[^"]*">([^<]+)<\/span>/)
+      if (nameClassMatch && nameClassMatch[1]) {
+        const candidate = nameClassMatch[1].trim()
+        // 确保不是系统词汇
+        if (!isNavWord(candidate)) {
+          playerName = candidate
+          debugLog(`方法2(name_class)提取到玩家名称: ${playerName}`)
+        }
+      }
+    }
+    
+    // 方法3: 备用方案 - 从纯文本中提取（如果HTML解析失败）
+    if (!playerName) {
+      const textContent = html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim()
+      const textParts = textContent.split(/\s+/).filter(part => part.length > 0)
+      
+      for (let i = 0; i < textParts.length - 2; i++) {
+        if (textParts[i] === texts.profile && textParts[i + 2] === texts.settings) {
+          const candidate = textParts[i + 1]
+          if (candidate && candidate.length >= 2 && candidate.length <= 20) {
+            if (!isNavWord(candidate)) {
+              playerName = candidate
+              debugLog(`方法3(文本解析)提取到玩家名称: ${playerName}`)
+              break
+            }
+          }
+        }
+      }
+    }
+    
+    debugLog(`最终提取的玩家名称: ${playerName || '未找到'}`)
+    
+    // 提取角色名 - 标签文字随语言变化（所用角色 / Character 等），只取其中的 span
+    const characterMatch = html.match(/<p class="character_name__\w+"[^>]*>[^<]*<span>([^<]+)<\/span><\/p>/)
+    const character = characterMatch?.[1]?.trim() || '未知'
+
+    // 提取段位积分 - 数字后的单位随语言变化（积分 / LP 等），Master 段位显示的是 MR
+    let rankPoints = 0
+    let masterRate: number | undefined
+    const pointRegex = /<span class="character_point__\w+"[^>]*>([0-9,]+)([^<0-9]*)<\/span>/g
+    let pointMatch
+    while ((pointMatch = pointRegex.exec(html)) !== null) {
+      if (/MR/i.test(pointMatch[2])) {
+        masterRate ??= parseNumber(pointMatch[1])
+      } else if (!rankPoints) {
+        rankPoints = parseNumber(pointMatch[1])
+      }
+    }
+
+    // 提取 Master 联赛与 MR 排名
+    const masterLeague = masterRate
+      ? html.match(/<(?:p|span) class="character_master_league__\w+"[^>]*>([^<]+)<\/(?:p|span)>/)?.[1]?.trim()
+      : undefined
+    const masterRankingMatch = masterRate
+      ? html.match(/<(?:p|span) class="character_ranking__\w+"[^>]*>[^<0-9]*([0-9,]+)/)
+      : undefined
+    const masterRanking = masterRankingMatch ? parseNumber(masterRankingMatch[1]) || undefined : undefined
+
+    // 提取段位名称 (从图片alt属性)
+    const rankNameMatch = html.match(/<img alt="([^"]+)"[^>]*src="[^"]*\/rank\/rank\d+_s\.png"/)
+    const rankName = rankNameMatch?.[1] || '未知段位'
+
+    // 提取格斗点 - 位于 dt/dd 结构中，dt 的文字随语言变化
+    const fightingPointsMatch = html.match(/<dt><span>[^<]*<\/span><\/dt><dd class="character_point__\w+"[^>]*>([0-9,]+)<\/dd>/)
+    const fightingPoints = parseNumber(fightingPointsMatch?.[1])
+
+    // 提取称号
+    const titleMatch2 = html.match(/<span class="character_text__\w+"[^>]*>([^<]+)<\/span>/)
+    const title = titleMatch2?.[1] || '无称号'
+
+    // 提取各角色段位 - league_info 列表中每个li对应一个角色
+    const leagues: CharacterLeague[] = []
+    const leagueListMatch = html.match(/<ul class="league_info_list__[^"]*"[^>]*>([\s\S]*?)<\/ul>/)
+    if (leagueListMatch) {
+      const liRegex = /<li[^>]*>([\s\S]*?)<\/li>/g
+      let liMatch
+      while ((liMatch = liRegex.exec(leagueListMatch[1])) !== null) {
+        const li = liMatch[1]
+        const leagueCharacter = li.match(/<img[^>]*alt="([^"]+)"[^>]*src="[^"]*\/character\/[^"]*"/)?.[1]?.trim()
+        const pointsMatch = li.match(/([0-9,]+)\s*(?:<!--[^>]*-->)*\s*LP/)
+        if (!leagueCharacter || !pointsMatch) continue
+        const mrMatch = li.match(/([0-9,]+)\s*(?:<!--[^>]*-->)*\s*MR/)
+        leagues.push({
+          character: leagueCharacter,
+          rankName: li.match(/<img alt="([^"]+)"[^>]*src="[^"]*\/rank\/rank\d+_s\.png"/)?.[1] || '未知段位',
+          rankPoints: parseNumber(pointsMatch[1]),
+          masterRate: mrMatch ? parseNumber(mrMatch[1]) || undefined : undefined,
+          isMain: leagueCharacter === character,
+        })
+      }
+      debugLog(`提取到 ${leagues.length} 个角色的段位数据`)
+    }
+
+    return {
+      playerId,
+      playerName, // 新增玩家名称
+      character,
+      rankName,
+      rankPoints,
+      fightingPoints,
+      masterRate,
+      masterLeague,
+      masterRanking,
+      title,
+      leagues,
+      url
+    }
+  }
+
+  // 解析一行胜率数据，胜场与对战数的文字随语言变化（如 12胜/对战：20、12 wins / 20 matches），只按数字顺序提取
+  function parseWinRateEntry(html: string): CharacterWinRate | undefined {
+    const name = html.match(/<p class="winning_rate_name__[^"]*">([^<]+)<\/p>/)?.[1]?.trim() || ''
+    const rateText = html.match(/<p class="winning_rate_rate__[^"]*">([\s\S]*?)<\/p>/)?.[1]
+    if (!rateText) return
+    // 胜场与对战场数的先后顺序随语言变化，按各自旁边的文字区分
+    const text = rateText.replace(/<!--[^>]*-->/g, '').replace(/<[^>]*>/g, ' ')
+    const texts = LOCALE_TEXTS[config.locale]
+    const wins = numberNearLabel(text, texts.wins)
+    const battles = numberNearLabel(text, texts.battles)
+    if (wins === undefined || battles === undefined) return
+    const rateMatch = html.match(/<span>([0-9.]+)<\/span>\s*%/)
+    return {
+      character: name,
+      wins,
+      battles,
+      winRate: rateMatch ? parseFloat(rateMatch[1]) : battles ? wins / battles * 100 : 0,
+    }
+  }
+
+  // 解析胜率页面
+  function parseWinRateData(html: string, playerId: string): WinRateData {
+    const url = playUrl(playerId)
+
+    const fromNextData = winRateDataFromNextData(extractNextData(html), playerId)
+    if (fromNextData) {
+      debugLog('从 __NEXT_DATA__ 解析胜率数据')
+      return fromNextData
+    }
+    debugLog('__NEXT_DATA__ 不可用，使用正则解析 HTML')
+    
+    // 提取玩家名称（复用之前的逻辑）
+    let playerName: string | undefined
+    const statusNameMatch = html.match(/<span class="status_name__[^"]*">([^<]+)<\/span>/)
+    if (statusNameMatch && statusNameMatch[1]) {
+      playerName = statusNameMatch[1].trim()
+      debugLog(`提取到玩家名称: ${playerName}`)
+    }
+    
+    // winning_rate_inner 块中每个li是一行胜率，第一行是"全部"，其余为各角色
+    const entries: Array<CharacterWinRate & { isAll: boolean }> = []
+    const innerMatch = html.match(/<div class="winning_rate_inner__[^"]*">([\s\S]*?)<\/ul>/)
+    if (innerMatch) {
+      const liRegex = /<li>([\s\S]*?)<\/li>/g
+      let liMatch
+      while ((liMatch = liRegex.exec(innerMatch[1])) !== null) {
+        const entry = parseWinRateEntry(liMatch[1])
+        if (!entry) continue
+        entries.push({ ...entry, isAll: entries.length === 0 || entry.character === LOCALE_TEXTS[config.locale].all })
+      }
+      debugLog(`winning_rate_inner 中解析到 ${entries.length} 行胜率数据`)
+    }
+
+    let totalWins = 0
+    let totalBattles = 0
+    let winRate = 0
+    
+    // 方法1: 使用"全部"一行
+    const all = entries.find(e => e.isAll)
+    if (all) {
+      totalWins = all.wins
+      totalBattles = all.battles
+      winRate = all.winRate
+      debugLog(`方法1提取胜率数据: ${totalWins}胜/${totalBattles}战 = ${winRate}%`)
+    } else {
+      // 方法2: 更宽松的匹配 - 使用页面中第一个胜率块
+      const fallback = parseWinRateEntry(html)
+      if (fallback) {
+        totalWins = fallback.wins
+        totalBattles = fallback.battles
+        winRate = fallback.winRate
+        debugLog(`方法2提取胜率数据: ${totalWins}胜/${totalBattles}战 = ${winRate}%`)
+      } else {
+        warnLog('无法提取胜率数据')
+      }
+    }
+    
+    const characters: CharacterWinRate[] = entries
+      .filter(e => !e.isAll)
+      .map(({ isAll, ...rest }) => rest)
+    debugLog(`提取到 ${characters.length} 个角色的胜率数据`)
+    
+    return {
+      playerId,
+      playerName,
+      totalWins,
+      totalBattles,
+      winRate,
+      characters,
+      url
+    }
+  }
+
+  // 解析对战时间，页面格式如 2024/07/14 19:38 或 07/14/2024 19:38
+  function parseBattleTime(text: string): number | undefined {
+    const ymd = text.match(/(\d{4})[\/.-](\d{1,2})[\/.-](\d{1,2})\D+(\d{1,2}):(\d{2})/)
+    if (ymd) {
+      return new Date(+ymd[1], +ymd[2] - 1, +ymd[3], +ymd[4], +ymd[5]).getTime()
+    }
+    const mdy = text.match(/(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{4})\D+(\d{1,2}):(\d{2})/)
+    if (mdy) {
+      return new Date(+mdy[3], +mdy[1] - 1, +mdy[2], +mdy[4], +mdy[5]).getTime()
+    }
+  }
+
+  // 解析战斗记录中单个玩家一侧的信息
+  function parseBattleSide(html: string) {
+    const id = html.match(/href="[^"]*\/profile\/(\d+)[^"]*"/)?.[1] || ''
+    const name = html.match(/<span class="battle_data_name__\w+"[^>]*>([^<]+)<\/span>/)?.[1]?.trim() || ''
+
+    // 角色名：优先取文本，其次取角色图片的 alt
+    const character = html.match(/<p class="battle_data_character__\w+"[^>]*>([^<]+)<\/p>/)?.[1]?.trim()
+      || html.match(/<img[^>]*alt="([^"]+)"[^>]*src="[^"]*\/character\/[^"]*"/)?.[1]?.trim()
+      || '未知'
+
+    const controlType = html.match(/<(?:p|span) class="battle_data_control__\w+"[^>]*>([^<]+)<\/(?:p|span)>/)?.[1]?.trim()
+      || html.match(/<img[^>]*alt="([^"]+)"[^>]*src="[^"]*\/control[^"]*"/)?.[1]?.trim()
+      || ''
+
+    const lpMatch = html.match(/([0-9,]+)\s*(?:<!--[^>]*-->)*\s*LP/)
+    const lp = lpMatch ? parseInt(lpMatch[1].replace(/,/g, '')) : undefined
+
+    // 每局结果图标，如 .../round/v.png、.../round/lose.png
+    const rounds: string[] = []
+    const roundRegex = /<img[^>]*src="[^"]*\/(?:round|result)[^"]*?\/([a-z_]+)\.png"/g
+    let roundMatch
+    while ((roundMatch = roundRegex.exec(html)) !== null) {
+      const mark = roundMatch[1].replace(/^(?:battle_)?(?:result_)?(?:round_)?/, '')
+      rounds.push(/^(?:l|lose|0)$/.test(mark) ? 'L' : mark.toUpperCase())
+    }
+
+    return { id, name, character, controlType, lp, rounds }
+  }
+
+  // 解析战斗记录页面
+  function parseBattlelog(html: string, playerId: string): BattlelogData {
+    const url = battlelogUrl(playerId)
+
+    const fromNextData = battlelogFromNextData(extractNextData(html), playerId)
+    if (fromNextData) {
+      debugLog(`从 __NEXT_DATA__ 解析到 ${fromNextData.records.length} 条战斗记录`)
+      return fromNextData
+    }
+    debugLog('__NEXT_DATA__ 不可用，使用正则解析 HTML')
+
+    let playerName: string | undefined
+    const statusNameMatch = html.match(/<span class="status_name__[^"]*">([^<]+)<\/span>/)
+    if (statusNameMatch && statusNameMatch[1]) {
+      playerName = statusNameMatch[1].trim()
+    }
+
+    // 每场对战是一个 battle_data_battlelog 块，按块切分
+    const blocks = html.split(/<article class="battle_data_battlelog__[^"]*"[^>]*>/).slice(1)
+    debugLog(`找到 ${blocks.length} 条战斗记录`)
+
+    const records: BattleRecord[] = []
+    for (let i = 0; i < blocks.length; i++) {
+      const block = blocks[i].split(/<\/article>/)[0]
+      const p2Index = block.search(/class="battle_data_player_2__/)
+      const p1Index = block.search(/class="battle_data_player_1__/)
+      if (p1Index < 0 || p2Index < 0) {
+        debugLog(`第 ${i + 1} 条记录缺少双方信息，跳过`)
+        continue
+      }
+
+      const p1 = parseBattleSide(block.slice(p1Index, p2Index > p1Index ? p2Index : undefined))
+      const p2 = parseBattleSide(block.slice(p2Index, p1Index > p2Index ? p1Index : undefined))
+
+      // 判断查询的玩家在哪一侧，无法判断时默认为 1P
+      const [self, opponent] = p2.id === playerId ? [p2, p1] : [p1, p2]
+
+      const selfWins = self.rounds.filter(r => r !== 'L').length
+      const opponentWins = opponent.rounds.filter(r => r !== 'L').length
+      const result = selfWins > opponentWins ? 'win' : selfWins < opponentWins ? 'lose' : 'draw'
+
+      const matchType = block.match(/<(?:p|span|div) class="battle_data_type__\w+"[^>]*>([^<]+)<\/(?:p|span|div)>/)?.[1]?.trim() || ''
+      const dateText = block.match(/<(?:p|span|div) class="battle_data_date__\w+"[^>]*>([^<]+)<\/(?:p|span|div)>/)?.[1]?.trim() || ''
+
+      records.push({
+        opponentId: opponent.id,
+        opponentName: opponent.name || opponent.id || '未知',
+        playerCharacter: self.character,
+        opponentCharacter: opponent.character,
+        controlType: self.controlType,
+        matchType,
+        playerRounds: self.rounds,
+        opponentRounds: opponent.rounds,
+        result,
+        playerLp: self.lp,
+        opponentLp: opponent.lp,
+        playedAt: parseBattleTime(dateText),
+      })
+    }
+
+    fillLpChanges(records)
+    debugLog(`战斗记录解析完成，共 ${records.length} 条`)
+    return { playerId, playerName, records, url }
+  }
+
+  // 记录按时间倒序排列，用同角色的上一场（更早的一场）计算积分变化
+  function fillLpChanges(records: BattleRecord[]) {
+    for (let i = 0; i < records.length; i++) {
+      const current = records[i]
+      if (current.playerLp === undefined) continue
+      const previous = records.slice(i + 1).find(r => r.playerCharacter === current.playerCharacter && r.playerLp !== undefined)
+      if (previous) current.lpChange = current.playerLp - previous.playerLp!
+    }
+  }
+
+  // snapshot 为 false 时不记录段位快照，用于绑定前验证等不代表真实查询的请求
+  async function getRankDataById(id: string, snapshot = true): Promise<RankData> {
+    const cacheKey = `rank:${id}`
+    const cached = rankCache.get(cacheKey)
+    if (cached) {
+      debugLog(`从缓存获取排位数据: ${id}`)
+      return cached
+    }
+
+    debugLog(`开始获取排位数据: ${id}`)
+    const url = profileUrl(id)
+    const html = await fetchHtml(url)
+    
+    debugLog(`页面内容长度: ${html.length}`)
+    debugLog(`页面前200字符: ${html.substring(0, 200)}`)
+    
+    if (looksLikeLoginPage(html)) {
+      warnLog('检测到登录页面，Cookie可能无效')
+      throw new Error('需要有效登录 Cookie 才能访问排位信息。')
+    }
+
+    const rankData = parseRankData(html, id)
+    debugLog(`解析结果:`, rankData)
+    
+    // 如果解析出的数据都是默认值，可能是页面结构问题
+    if (rankData.character === '未知' && rankData.rankPoints === 0 && !rankData.masterRate) {
+      warnLog('解析结果异常，页面可能需要登录或结构已变更')
+      throw new Error('无法解析排位信息，可能需要重新设置Cookie或页面结构已变更。')
+    }
+    
+    rankCache.set(cacheKey, rankData)
+    infoLog(`成功获取并缓存排位数据: ${id}`)
+    // 记录快照可能需要额外获取胜率页面，在后台进行，不拖慢查询
+    if (snapshot) recordSnapshot(rankData)
+    return rankData
+  }
+
+  async function getWinRateDataById(id: string): Promise<WinRateData> {
+    const cacheKey = `winrate:${id}`
+    const cached = winRateCache.get(cacheKey)
+    if (cached) {
+      debugLog(`从缓存获取胜率数据: ${id}`)
+      return cached
+    }
+
+    debugLog(`开始获取胜率数据: ${id}`)
+    const url = playUrl(id)
+    const html = await fetchHtml(url)
+    
+    if (looksLikeLoginPage(html)) {
+      throw new Error('需要登录才能查看此页面，请检查Cookie设置')
+    }
+
+    const winRateData = parseWinRateData(html, id)
+    debugLog(`胜率解析结果:`, winRateData)
+    
+    // 如果解析出的数据都是默认值，可能是页面结构问题
+    if (winRateData.totalBattles === 0 && winRateData.winRate === 0) {
+      warnLog('胜率解析结果异常，页面可能需要登录或结构已变更')
+      throw new Error('无法解析胜率信息，可能需要重新设置Cookie或页面结构已变更。')
+    }
+    
+    winRateCache.set(cacheKey, winRateData)
+    infoLog(`成功获取并缓存胜率数据: ${id}`)
+    return winRateData
+  }
+
+  async function getBattlelogById(id: string): Promise<BattlelogData> {
+    const cacheKey = `battlelog:${id}`
+    const cached = battlelogCache.get(cacheKey)
+    if (cached) {
+      debugLog(`从缓存获取战斗记录: ${id}`)
+      return cached
+    }
+
+    debugLog(`开始获取战斗记录: ${id}`)
+    const url = battlelogUrl(id)
+    const html = await fetchHtml(url)
+
+    if (looksLikeLoginPage(html)) {
+      throw new Error('需要登录才能查看此页面，请检查Cookie设置')
+    }
+
+    const battlelog = parseBattlelog(html, id)
+    debugLog(`战斗记录解析结果: ${battlelog.records.length} 条`)
+
+    if (battlelog.records.length === 0) {
+      warnLog('战斗记录解析结果为空，可能没有对战记录或页面结构已变更')
+      throw new Error('未解析到战斗记录，可能该玩家暂无对战或页面结构已变更。')
+    }
+
+    battlelogCache.set(cacheKey, battlelog)
+    infoLog(`成功获取并缓存战斗记录: ${id}`)
+    return battlelog
+  }
+
+  const CAPTURE_TARGETS = {
+    profile: {
+      name: '排位',
+      cacheKey: 'screenshot',
+      cache: screenshotCache,
+      url: profileUrl,
+      selectors: [
+        '.overview_inner__cN9HT',              // 完整的overview区域
+        '.overview_bg__13XYX',                 // overview背景区域
+        '.character_character_status__5EtcB',  // 只是角色状态
+        'article[class*="character_status"]',  // 模糊匹配
+        'article[class*="character"]',         // 更宽泛的匹配
+        'main',                                // 兜底选择器
+      ],
+      ready: '[class*="overview_inner"], [class*="character_status"]',
+      fullPage: false,
+    },
+    winrate: {
+      name: '胜率',
+      cacheKey: 'winrate_screenshot',
+      cache: winRateScreenshotCache,
+      url: playUrl,
+      referer: profileUrl,
+      selectors: ['[class*="winning_rate_winning_rate"]'],
+    },
+    battlelog: {
+      name: '战斗记录',
+      cacheKey: 'battlelog_screenshot',
+      cache: battlelogScreenshotCache,
+      url: battlelogUrl,
+      referer: profileUrl,
+      selectors: ['[class*="battlelog_inner"]'],
+    },
+    search: {
+      name: '搜索结果',
+      cacheKey: 'search_screenshot',
+      cache: playerSearchScreenshotCache,
+      url: searchUrl,
+      selectors: ['.list_inner__hpkhV', '[class*="list_inner"]', '.fighterslist', 'main'],
+    },
+  } satisfies Record<string, CaptureTarget>
+
+  function takeScreenshot(id: string): Promise<Buffer> {
+    return capturePage(CAPTURE_TARGETS.profile, id)
+  }
+
+  function takeWinRateScreenshot(id: string): Promise<Buffer> {
+    return capturePage(CAPTURE_TARGETS.winrate, id)
+  }
+
+  function takeBattlelogScreenshot(id: string): Promise<Buffer> {
+    return capturePage(CAPTURE_TARGETS.battlelog, id)
+  }
+
+  function takePlayerSearchScreenshot(playerName: string): Promise<Buffer> {
+    return capturePage(CAPTURE_TARGETS.search, playerName)
+  }
+
+  // 截取 Buckler 页面：先查缓存，未命中时经调度器打开页面截图并缓存
+  async function capturePage(target: CaptureTarget, arg: string): Promise<Buffer> {
+    const cacheKey = `${target.cacheKey}:${arg}`
+    const cached = target.cache.get(cacheKey)
     if (cached) {
-      debugLog(`使用缓存的搜索截图: ${playerName}`)
+      debugLog(`从缓存获取${target.name}截图: ${arg}`)
       return cached
     }
 
-    debugLog(`开始截取搜索结果截图: ${playerName}`)
-    
-    const encodedName = encodeURIComponent(playerName)
-    const searchUrl = `${config.baseUrl}/${config.locale}/fighterslist/search/result?fighter_id=${encodedName}&page=1`
-    
-    const page = await ctx.puppeteer.page()
-    
+    // 检查是否有 puppeteer 服务
+    if (!ctx.puppeteer) {
+      throw new Error('需要安装 puppeteer 服务才能使用截图功能。请安装 koishi-plugin-puppeteer。')
+    }
+
+    ensureCookieAlive()
+    return scheduler.run(cacheKey, async () => {
+      const screenshot = await renderCapture(target, arg)
+      target.cache.set(cacheKey, screenshot)
+      infoLog(`成功完成${target.name}截图并缓存: ${arg}`)
+      return screenshot
+    })
+  }
+
+  // 检测页面是否为拒绝访问页（403、被拦截）。
+  // 标题只在以错误文字开头时判定，避免标题中的玩家名称等内容包含 403、blocked 时误判
+  function looksLikeBlockedPage(title: string, text: string): boolean {
+    return /^\s*(403\b|forbidden\b|access denied\b)/i.test(title)
+      || /403 forbidden|access denied|request blocked|been blocked/i.test(text.slice(0, 1000))
+  }
+
+  async function renderCapture(target: CaptureTarget, arg: string): Promise<Buffer> {
+    const url = target.url(arg)
+    debugLog(`开始${target.name}截图流程: ${url}`)
+    const pooled = await pagePool.acquire()
+    const { page } = pooled
+    let failed = false
+
     try {
-      await page.setUserAgent(config.userAgent)
-      
-      if (runtimeCookie) {
-        // 解析Cookie字符串
-        const cookies = runtimeCookie.split(';').map(cookie => {
-          const [name, ...valueParts] = cookie.trim().split('=')
-          const value = valueParts.join('=')
-          return {
-            name: name.trim(),
-            value: value?.trim() || '',
-            domain: '.streetfighter.com'
+      const cookie = await setPageCookie(pooled, takeCookie())
+
+      await page.goto(url, {
+        waitUntil: 'domcontentloaded',
+        timeout: config.screenshotTimeout,
+        referer: target.referer?.(arg) ?? `${config.baseUrl}/${config.locale}/`,
+      })
+      debugLog('页面导航完成，等待内容加载')
+
+      // 等待内容与等待字体、图片共用一个截止时间
+      const deadline = Date.now() + config.screenshotWaitTimeout
+      const ready = target.ready ?? target.selectors[0]
+      try {
+        await page.waitForSelector(ready, { timeout: config.screenshotWaitTimeout })
+        debugLog(`${target.name}内容加载完成`)
+      } catch (e) {
+        // 等待超时仍尝试截图，可能内容已经加载但选择器不匹配
+        debugLog(`等待${target.name}内容超时，尝试直接截图`)
+      }
+      // 等待字体和图片加载完成，代替固定的等待时间
+      await page.evaluate((timeout: number) => new Promise<void>(resolve => {
+        const images = [...document.images].filter(image => !image.complete).map(image => new Promise(done => {
+          image.addEventListener('load', done, { once: true })
+          image.addEventListener('error', done, { once: true })
+        }))
+        Promise.all([document.fonts.ready, ...images]).then(() => resolve())
+        setTimeout(resolve, timeout)
+      }), Math.max(0, deadline - Date.now()))
+
+      // 检查是否被拒绝访问或跳转到登录页
+      const { title, text, html } = await page.evaluate(() => ({
+        title: document.title,
+        text: document.body.innerText,
+        html: document.documentElement.outerHTML,
+      }))
+      if (looksLikeBlockedPage(title, text)) {
+        warnLog(`检测到访问被拒绝页面: ${title}`)
+        noteCookieResult(cookie, 'blocked', '访问被拒绝')
+        throw new Error('访问被拒绝：可能是Cookie无效或网站检测到自动化访问。请重新获取Cookie。')
+      }
+      if (looksLikeLoginPage(html)) {
+        noteCookieResult(cookie, 'login', '遇到登录页')
+        throw new Error('需要有效登录 Cookie 才能截图。')
+      }
+      noteCookieResult(cookie, 'ok')
+
+      if (target.hide?.length) {
+        await page.evaluate((selectors: string[]) => {
+          for (const element of document.querySelectorAll<HTMLElement>(selectors.join(','))) {
+            element.style.display = 'none'
           }
-        }).filter(cookie => cookie.name && cookie.value)
-        
-        if (cookies.length > 0) {
-          await page.setCookie(...cookies)
-          debugLog(`成功设置 ${cookies.length} 个Cookie`)
-        }
+        }, target.hide)
       }
-      
-      await page.goto(searchUrl, { waitUntil: 'networkidle2', timeout: HTTP_TIMEOUT })
-      
-      debugLog('页面加载完成，等待搜索结果元素...')
-      
-      // 尝试多种选择器等待搜索结果加载
-      let element = null
-      const selectors = [
-        '.list_inner__hpkhV',
-        '[class*="list_inner"]',
-        '.fighterslist',
-        'main',
-        'body'
-      ]
-      
-      for (const selector of selectors) {
+
+      for (const selector of target.selectors) {
         try {
-          await page.waitForSelector(selector, { timeout: 5000 })
-          element = await page.$(selector)
-          if (element) {
-            debugLog(`找到元素使用选择器: ${selector}`)
-            break
-          }
+          const element = await page.$(selector)
+          if (!element) continue
+          debugLog(`截取元素 (${selector})`)
+          return await element.screenshot({ type: 'png' })
         } catch (e) {
-          debugLog(`选择器 ${selector} 未找到元素`)
+          debugLog(`截取 ${selector} 失败，尝试下一个`)
         }
       }
-      
-      if (!element) {
-        // 如果没有找到特定元素，截取整个可视区域
-        debugLog('未找到特定元素，截取整个页面')
-        const screenshot = await page.screenshot({ type: 'png', fullPage: true })
-        playerSearchScreenshotCache.set(cacheKey, screenshot)
-        debugLog(`搜索结果截图已缓存: ${playerName}`)
-        return screenshot
+
+      warnLog(`未找到${target.name}区域，截取整个页面`)
+      return await page.screenshot({ type: 'png', fullPage: target.fullPage ?? true, clip: target.clip })
+    } catch (e) {
+      failed = true
+      throw e
+    } finally {
+      await pagePool.release(pooled, failed)
+    }
+  }
+
+  // 新建截图页面，设置好浏览器环境，并预先登录轮换到的 Cookie
+  async function createCapturePage(): Promise<PooledPage> {
+    // 每个页面使用独立的浏览器上下文，避免并发截图时互相改写 Cookie
+    const browser = ctx.puppeteer.browser
+    const createContext = browser?.createBrowserContext ?? browser?.createIncognitoBrowserContext
+    const context = createContext ? await createContext.call(browser) : undefined
+    try {
+      const page = context ? await context.newPage() : await ctx.puppeteer.page()
+      await page.setUserAgent(config.userAgent)
+      await page.setExtraHTTPHeaders({
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+        'Accept-Language': LOCALE_TEXTS[config.locale].acceptLanguage,
+        'Accept-Encoding': 'gzip, deflate, br',
+        'Upgrade-Insecure-Requests': '1',
+      })
+      await page.setViewport({ width: 1920, height: 1080 })
+      const pooled: PooledPage = { page, context, uses: 0 }
+      // 预热时没有可用的 Cookie 也照常创建，截图时再设置
+      await setPageCookie(pooled, cookiePool.pick())
+      debugLog(context ? '已创建截图页面（独立浏览器上下文）' : '已创建截图页面')
+      return pooled
+    } catch (e) {
+      await context?.close().catch(() => {})
+      throw e
+    }
+  }
+
+  // 转义插入到图表模板中的文本
+  function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c])
+  }
+
+  // 生成段位趋势折线图的 SVG，LP 使用左侧坐标轴，MR 使用右侧坐标轴
+  function buildTrendSvg(series: StreetFighter6Snapshot[]): string {
+    const width = 900
+    const height = 420
+    const pad = { top: 30, right: 70, bottom: 50, left: 70 }
+    const plotWidth = width - pad.left - pad.right
+    const plotHeight = height - pad.top - pad.bottom
+
+    const times = series.map(s => s.createdAt.getTime())
+    const minTime = Math.min(...times)
+    const timeSpan = Math.max(Math.max(...times) - minTime, 1)
+    const x = (time: number) => pad.left + (time - minTime) / timeSpan * plotWidth
+
+    // 计算坐标轴范围，上下各留出 5% 的空间
+    const axis = (values: number[]) => {
+      const min = Math.min(...values)
+      const max = Math.max(...values)
+      const margin = Math.max((max - min) * 0.05, 1)
+      return { min: min - margin, max: max + margin }
+    }
+    const y = (value: number, range: { min: number; max: number }) =>
+      pad.top + (1 - (value - range.min) / (range.max - range.min)) * plotHeight
+
+    const lpRange = axis(series.map(s => s.rankPoints))
+    const mrSeries = series.filter(s => s.masterRate > 0)
+    const mrRange = mrSeries.length > 0 ? axis(mrSeries.map(s => s.masterRate)) : undefined
+
+    const elements: string[] = []
+    for (let i = 0; i <= 4; i++) {
+      const ratio = i / 4
+      const lineY = pad.top + ratio * plotHeight
+      elements.push(`<line x1="${pad.left}" y1="${lineY}" x2="${width - pad.right}" y2="${lineY}" class="grid"/>`)
+      const lpValue = Math.round(lpRange.max - ratio * (lpRange.max - lpRange.min))
+      elements.push(`<text x="${pad.left - 8}" y="${lineY + 4}" class="axis lp" text-anchor="end">${lpValue.toLocaleString()}</text>`)
+      if (mrRange) {
+        const mrValue = Math.round(mrRange.max - ratio * (mrRange.max - mrRange.min))
+        elements.push(`<text x="${width - pad.right + 8}" y="${lineY + 4}" class="axis mr">${mrValue.toLocaleString()}</text>`)
       }
-      
-      // 截取找到的元素
-      const screenshot = await element.screenshot({ type: 'png' })
-      playerSearchScreenshotCache.set(cacheKey, screenshot)
-      debugLog(`搜索结果截图已缓存: ${playerName}`)
-      
-      return screenshot
+    }
+    for (let i = 0; i <= 4; i++) {
+      const time = minTime + timeSpan * i / 4
+      elements.push(`<text x="${x(time)}" y="${height - pad.bottom + 22}" class="axis" text-anchor="middle">${formatDateTime(time)}</text>`)
+    }
+
+    const lpPoints = series.map(s => `${x(s.createdAt.getTime()).toFixed(1)},${y(s.rankPoints, lpRange).toFixed(1)}`)
+    elements.push(`<polyline points="${lpPoints.join(' ')}" class="line lp"/>`)
+    if (mrRange) {
+      const mrPoints = mrSeries.map(s => `${x(s.createdAt.getTime()).toFixed(1)},${y(s.masterRate, mrRange).toFixed(1)}`)
+      elements.push(`<polyline points="${mrPoints.join(' ')}" class="line mr"/>`)
+    }
+
+    // 标出段位变化的位置
+    for (let i = 1; i < series.length; i++) {
+      if (series[i].rankName === series[i - 1].rankName) continue
+      const cx = x(series[i].createdAt.getTime())
+      const cy = y(series[i].rankPoints, lpRange)
+      elements.push(`<circle cx="${cx}" cy="${cy}" r="5" class="dot"/>`)
+      elements.push(`<text x="${cx}" y="${cy - 10}" class="label" text-anchor="middle">${escapeHtml(series[i].rankName)}</text>`)
+    }
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${elements.join('')}</svg>`
+  }
+
+  // 使用本地模板渲染段位趋势图表
+  async function renderTrendChart(playerId: string, series: StreetFighter6Snapshot[], rangeLabel: string, playerName?: string): Promise<Buffer> {
+    if (!ctx.puppeteer) {
+      throw new Error('需要安装 puppeteer 服务才能使用图表功能。请安装 koishi-plugin-puppeteer。')
+    }
+
+    const last = series[series.length - 1]
+    const title = `${playerName ? `${playerName} (ID: ${playerId})` : playerId} · ${last.character} · ${rangeLabel}`
+    const legend = series.some(s => s.masterRate > 0)
+      ? '<span class="lp">● LP（左轴）</span><span class="mr">● MR（右轴）</span>'
+      : '<span class="lp">● LP</span>'
+    const html = `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><style>
+  body { margin: 0; background: #14161c; font-family: "Microsoft YaHei", "PingFang SC", sans-serif; color: #e6e6e6; }
+  #chart { display: inline-block; padding: 20px 24px; }
+  h1 { margin: 0 0 6px; font-size: 20px; }
+  .legend span { margin-right: 16px; font-size: 14px; }
+  .legend .lp, .axis.lp { color: #4fc3f7; fill: #4fc3f7; }
+  .legend .mr, .axis.mr { color: #ffb74d; fill: #ffb74d; }
+  .grid { stroke: #2c3040; stroke-width: 1; }
+  .axis { fill: #9aa0ad; font-size: 12px; }
+  .line { fill: none; stroke-width: 2.5; stroke-linejoin: round; }
+  .line.lp { stroke: #4fc3f7; }
+  .line.mr { stroke: #ffb74d; }
+  .dot { fill: #ef5350; }
+  .label { fill: #ef5350; font-size: 12px; }
+</style></head>
+<body><div id="chart">
+  <h1>${escapeHtml(title)}</h1>
+  <div class="legend">${legend}</div>
+  ${buildTrendSvg(series)}
+</div></body></html>`
+
+    const page = await ctx.puppeteer.page()
+    try {
+      await page.setViewport({ width: 1000, height: 600 })
+      await page.setContent(html, { waitUntil: 'load' })
+      const element = await page.$('#chart')
+      const chart = element
+        ? await element.screenshot({ type: 'png' })
+        : await page.screenshot({ type: 'png', fullPage: true })
+      debugLog(`段位图表绘制完成: ${playerId}，${series.length} 个数据点`)
+      return chart
     } finally {
       await page.close()
     }
   }
 
-  // 解析排位积分页面
-  function parseRankData(html: string, playerId: string): RankData {
-    const url = profileUrl(playerId)
-    
-    // 提取玩家名称 - 从特定的HTML元素中提取
-    let playerName: string | undefined
-    
-    // 方法1: 从status_name元素中提取（最准确的方法）
-    const statusNameMatch = html.match(/<span class="status_name__[^"]*">([^<]+)<\/span>/)
-    if (statusNameMatch && statusNameMatch[1]) {
-      playerName = statusNameMatch[1].trim()
-      debugLog(`方法1(status_name)提取到玩家名称: ${playerName}`)
+  // 使用本地模板渲染群排行图片
+  async function renderLeaderboard(entries: LeaderboardEntry[], title: string): Promise<Buffer> {
+    if (!ctx.puppeteer) {
+      throw new Error('需要安装 puppeteer 服务才能使用图片排行。请安装 koishi-plugin-puppeteer。')
     }
-    
-    // 方法2: 如果方法1失败，尝试更宽松的class匹配
-    if (!playerName) {
-      const nameClassMatch = html.match(/<span class="[^"]*name[^"]*">([^<]+)<\/span>/)
-      if (nameClassMatch && nameClassMatch[1]) {
-        const candidate = nameClassMatch[1].trim()
-        // 确保不是系统词汇
-        if (!/^(设置|账号|简介|格斗|排位|退出|登录|资料|CFN|CAPCOM|STREET|FIGHTER|UTC|电竞|支持|包括|服务|独有|ZH-HANS)$/i.test(candidate)) {
-          playerName = candidate
-          debugLog(`方法2(name_class)提取到玩家名称: ${playerName}`)
-        }
-      }
+
+    const rows = entries.map((e, index) => {
+      const score = e.masterRate ? `${e.masterRate.toLocaleString()} MR` : `${e.rankPoints.toLocaleString()} LP`
+      return `<tr class="${index < 3 ? `top top${index + 1}` : ''}">
+        <td class="index">${index + 1}</td>
+        <td>${escapeHtml(e.memberName)}<div class="sub">${escapeHtml(e.playerName || '')} ${e.playerId}</div></td>
+        <td>${escapeHtml(e.character)}</td>
+        <td>${escapeHtml(e.rankName)}</td>
+        <td class="score">${score}</td>
+      </tr>`
+    }).join('')
+    const html = `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><style>
+  body { margin: 0; background: #14161c; font-family: "Microsoft YaHei", "PingFang SC", sans-serif; color: #e6e6e6; }
+  #board { display: inline-block; padding: 20px 24px; min-width: 640px; }
+  h1 { margin: 0 0 12px; font-size: 20px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { padding: 8px 12px; text-align: left; border-bottom: 1px solid #2c3040; font-size: 15px; }
+  th { color: #9aa0ad; font-weight: normal; }
+  .index { width: 32px; text-align: center; color: #9aa0ad; }
+  .sub { color: #9aa0ad; font-size: 12px; }
+  .score { text-align: right; font-weight: bold; color: #4fc3f7; }
+  .top1 .index { color: #ffd54f; } .top2 .index { color: #cfd8dc; } .top3 .index { color: #ffab91; }
+</style></head>
+<body><div id="board">
+  <h1>${escapeHtml(title)}</h1>
+  <table><tr><th>#</th><th>成员</th><th>角色</th><th>段位</th><th class="score">积分</th></tr>${rows}</table>
+</div></body></html>`
+
+    const page = await ctx.puppeteer.page()
+    try {
+      await page.setViewport({ width: 900, height: 600 })
+      await page.setContent(html, { waitUntil: 'load' })
+      const element = await page.$('#board')
+      return element
+        ? await element.screenshot({ type: 'png' })
+        : await page.screenshot({ type: 'png', fullPage: true })
+    } finally {
+      await page.close()
     }
-    
-    // 方法3: 备用方案 - 从纯文本中提取（如果HTML解析失败）
-    if (!playerName) {
-      const textContent = html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim()
-      const textParts = textContent.split(/\s+/).filter(part => part.length > 0)
-      
-      for (let i = 0; i < textParts.length - 2; i++) {
-        if (textParts[i] === '简介' && textParts[i + 2] === '设置') {
-          const candidate = textParts[i + 1]
-          if (candidate && candidate.length >= 2 && candidate.length <= 20) {
-            if (!/^(设置|账号|简介|格斗|排位|退出|登录|资料|CFN|CAPCOM|STREET|FIGHTER|UTC|电竞|支持|包括|服务|独有|ZH-HANS)$/i.test(candidate)) {
-              playerName = candidate
-              debugLog(`方法3(文本解析)提取到玩家名称: ${playerName}`)
-              break
-            }
-          }
-        }
-      }
+  }
+
+  function formatRankData(data: RankData): string {
+    const parts: string[] = []
+    const playerInfo = data.playerName ? `${data.playerName} (ID: ${data.playerId})` : data.playerId
+    parts.push(`玩家：${playerInfo}`)
+    parts.push(`使用角色：${data.character}`)
+    if (data.masterRate) {
+      // Master 段位以 MR 为主，LP 仅在页面提供时附带显示
+      parts.push(`段位：${data.rankName}${data.masterLeague ? `（${data.masterLeague}）` : ''}`)
+      parts.push(`Master Rate：${data.masterRate.toLocaleString()} MR`)
+      if (data.masterRanking) parts.push(`MR 排名：第 ${data.masterRanking.toLocaleString()} 名`)
+      if (data.rankPoints) parts.push(`排位积分：${data.rankPoints.toLocaleString()}`)
+    } else {
+      parts.push(`段位：${data.rankName}`)
+      parts.push(`排位积分：${data.rankPoints.toLocaleString()}`)
     }
-    
-    debugLog(`最终提取的玩家名称: ${playerName || '未找到'}`)
-    
-    // 提取角色名
-    const characterMatch = html.match(/<p class="character_name__\w+"[^>]*>所用角色<span>([^<]+)<\/span><\/p>/)
-    const character = characterMatch?.[1] || '未知'
+    parts.push(`格斗点：${data.fightingPoints.toLocaleString()}`)
+    if (data.title !== '无称号') parts.push(`称号：${data.title}`)
+    parts.push(`详情：${data.url}`)
+    return parts.join('\n')
+  }
 
-    // 提取段位积分
-    const rankPointsMatch = html.match(/<span class="character_point__\w+"[^>]*>([0-9,]+)积分<\/span>/)
-    const rankPoints = rankPointsMatch ? parseInt(rankPointsMatch[1].replace(/,/g, '')) : 0
+  function formatLeagueOverview(data: RankData): string {
+    const parts: string[] = []
+    const playerInfo = data.playerName ? `${data.playerName} (ID: ${data.playerId})` : data.playerId
+    parts.push(`玩家：${playerInfo}`)
 
-    // 提取段位名称 (从图片alt属性)
-    const rankNameMatch = html.match(/<img alt="([^"]+)"[^>]*src="[^"]*\/rank\/rank\d+_s\.png"/)
-    const rankName = rankNameMatch?.[1] || '未知段位'
+    // 页面未提供主用角色的段位时，用资料页展示的数据补上
+    const leagues = [...data.leagues]
+    if (!leagues.some(l => l.isMain)) {
+      leagues.push({ character: data.character, rankName: data.rankName, rankPoints: data.rankPoints, isMain: true })
+    }
+    leagues.sort((a, b) => (b.masterRate || 0) - (a.masterRate || 0) || b.rankPoints - a.rankPoints)
+
+    parts.push(`各角色段位（共 ${leagues.length} 个，★ 为主用角色）：`)
+    for (const l of leagues) {
+      const mr = l.masterRate ? ` / ${l.masterRate.toLocaleString()} MR` : ''
+      parts.push(`${l.isMain ? '★' : '·'} ${l.character}：${l.rankName} ${l.rankPoints.toLocaleString()} LP${mr}`)
+    }
 
-    // 提取格斗点
-    const fightingPointsMatch = html.match(/<dt><span>格斗点<\/span><\/dt><dd class="character_point__\w+"[^>]*>([0-9,]+)<\/dd>/)
-    const fightingPoints = fightingPointsMatch ? parseInt(fightingPointsMatch[1].replace(/,/g, '')) : 0
+    parts.push(`详情：${data.url}`)
+    return parts.join('\n')
+  }
 
-    // 提取称号
-    const titleMatch2 = html.match(/<span class="character_text__\w+"[^>]*>([^<]+)<\/span>/)
-    const title = titleMatch2?.[1] || '无称号'
+  function formatWinRateData(data: WinRateData, options: WinRateFormatOptions = {}): string {
+    const parts: string[] = []
+    const playerInfo = data.playerName ? `${data.playerName} (ID: ${data.playerId})` : data.playerId
+    parts.push(`玩家：${playerInfo}`)
+    parts.push(`总战绩：${data.totalWins}胜/${data.totalBattles}战`)
+    parts.push(`总胜率：${data.winRate.toFixed(2)}%`)
+
+    const minBattles = options.minBattles || 0
+    const characters = data.characters
+      .filter(c => c.battles > 0 && c.battles >= minBattles)
+      .sort((a, b) => options.sortBy === 'rate'
+        ? b.winRate - a.winRate || b.battles - a.battles
+        : b.battles - a.battles || b.winRate - a.winRate)
+    if (characters.length > 0) {
+      const sortLabel = options.sortBy === 'rate' ? '按胜率' : '按场数'
+      const filterLabel = minBattles > 0 ? `，至少 ${minBattles} 场` : ''
+      parts.push(`角色胜率（${sortLabel}${filterLabel}）：`)
+      characters.forEach((c, index) => {
+        parts.push(`${index + 1}. ${c.character}：${c.winRate.toFixed(2)}%（${c.wins}胜/${c.battles}战）`)
+      })
+    }
+
+    parts.push(`详情：${data.url}`)
+    return parts.join('\n')
+  }
+
+  function formatDateTime(time?: number | Date): string {
+    if (!time) return '时间未知'
+    const d = new Date(time)
+    const pad = (n: number) => String(n).padStart(2, '0')
+    return `${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`
+  }
+
+  function formatBattlelog(data: BattlelogData, limit = 10): string {
+    const parts: string[] = []
+    const playerInfo = data.playerName ? `${data.playerName} (ID: ${data.playerId})` : data.playerId
+    parts.push(`玩家：${playerInfo}`)
+
+    const records = data.records.slice(0, limit)
+    const wins = records.filter(r => r.result === 'win').length
+    const losses = records.filter(r => r.result === 'lose').length
+    const draws = records.length - wins - losses
+    parts.push(`最近 ${records.length} 场：${wins}胜${losses}负${draws ? `${draws}平` : ''}`)
+
+    for (const r of records) {
+      const mark = r.result === 'win' ? '胜' : r.result === 'lose' ? '负' : '平'
+      const rounds = `${r.playerRounds.filter(x => x !== 'L').length}-${r.opponentRounds.filter(x => x !== 'L').length}`
+      const control = r.controlType ? `(${r.controlType})` : ''
+      const lp = r.lpChange !== undefined ? ` ${r.lpChange >= 0 ? '+' : ''}${r.lpChange}LP` : ''
+      const type = r.matchType ? ` [${r.matchType}]` : ''
+      parts.push(`${formatDateTime(r.playedAt)} ${mark} ${rounds} ${r.playerCharacter}${control} vs ${r.opponentName} ${r.opponentCharacter}${lp}${type}`)
+    }
+
+    parts.push(`详情：${data.url}`)
+    return parts.join('\n')
+  }
 
+  // 统计两名玩家在战斗记录中的交手战绩（以 data 所属玩家的视角）
+  function headToHead(data: BattlelogData, opponentId: string) {
+    const matches = data.records.filter(r => r.opponentId === opponentId)
     return {
-      playerId,
-      playerName, // 新增玩家名称
-      character,
-      rankName,
-      rankPoints,
-      fightingPoints,
-      title,
-      url
+      wins: matches.filter(r => r.result === 'win').length,
+      losses: matches.filter(r => r.result === 'lose').length,
+      total: matches.length,
     }
   }
 
-  // 解析胜率页面
-  function parseWinRateData(html: string, playerId: string): WinRateData {
-    const url = playUrl(playerId)
-    
-    // 提取玩家名称（复用之前的逻辑）
-    let playerName: string | undefined
-    const statusNameMatch = html.match(/<span class="status_name__[^"]*">([^<]+)<\/span>/)
-    if (statusNameMatch && statusNameMatch[1]) {
-      playerName = statusNameMatch[1].trim()
-      debugLog(`提取到玩家名称: ${playerName}`)
+  function formatComparison(a: CompareSide, b: CompareSide): string {
+    const parts: string[] = []
+    const label = (side: CompareSide) => side.rank?.playerName || side.winRate?.playerName || side.id
+    const row = (title: string, left?: string, right?: string) => {
+      if (left === undefined && right === undefined) return
+      parts.push(`${title}：${left ?? '-'} | ${right ?? '-'}`)
     }
-    
-    // 提取总胜率数据 - 查找"全部"的胜率信息
-    let totalWins = 0
-    let totalBattles = 0
-    let winRate = 0
-    
-    // 方法1: 从winning_rate_inner块中提取第一个li（应该是"全部"）
-    const allStatsMatch = html.match(/<div class="winning_rate_inner__[^"]*">[\s\S]*?<li>[\s\S]*?<p class="winning_rate_name__[^"]*">全部<\/p>[\s\S]*?<p class="winning_rate_rate__[^"]*">(\d+)胜(?:<!--[^>]*-->)*\/?(?:<!--[^>]*-->)*对战：(\d+)<\/p>[\s\S]*?<span>([0-9.]+)<\/span>%/)
-    
-    if (allStatsMatch) {
-      totalWins = parseInt(allStatsMatch[1])
-      totalBattles = parseInt(allStatsMatch[2])
-      winRate = parseFloat(allStatsMatch[3])
-      debugLog(`方法1提取胜率数据: ${totalWins}胜/${totalBattles}战 = ${winRate}%`)
-    } else {
-      // 方法2: 更宽松的匹配 - 包含HTML注释
-      const winsMatch = html.match(/(\d+)胜(?:<!--[^>]*-->)*\/?(?:<!--[^>]*-->)*对战：(\d+)/)
-      const rateMatch = html.match(/<span>([0-9.]+)<\/span>%/)
-      
-      if (winsMatch && rateMatch) {
-        totalWins = parseInt(winsMatch[1])
-        totalBattles = parseInt(winsMatch[2])
-        winRate = parseFloat(rateMatch[1])
-        debugLog(`方法2提取胜率数据: ${totalWins}胜/${totalBattles}战 = ${winRate}%`)
-      } else {
-        warnLog('无法提取胜率数据')
+
+    parts.push(`⚔️ ${label(a)} (ID: ${a.id}) vs ${label(b)} (ID: ${b.id})`)
+    row('使用角色', a.rank?.character, b.rank?.character)
+    row('段位', a.rank?.rankName, b.rank?.rankName)
+    if (a.rank?.masterRate || b.rank?.masterRate) {
+      row('Master Rate', a.rank?.masterRate?.toLocaleString(), b.rank?.masterRate?.toLocaleString())
+    }
+    row('排位积分', a.rank?.rankPoints.toLocaleString(), b.rank?.rankPoints.toLocaleString())
+    row('格斗点', a.rank?.fightingPoints.toLocaleString(), b.rank?.fightingPoints.toLocaleString())
+
+    const totalRate = (data?: WinRateData) => data && `${data.winRate.toFixed(2)}%（${data.totalWins}/${data.totalBattles}）`
+    row('总胜率', totalRate(a.winRate), totalRate(b.winRate))
+
+    // 各自对战场数最多的几个角色
+    const topCharacters = (data?: WinRateData) => data && [...data.characters]
+      .filter(c => c.battles > 0)
+      .sort((x, y) => y.battles - x.battles)
+      .slice(0, 3)
+      .map(c => `${c.character} ${c.winRate.toFixed(1)}%`)
+      .join('、')
+    row('常用角色胜率', topCharacters(a.winRate) || undefined, topCharacters(b.winRate) || undefined)
+
+    if (a.battlelog || b.battlelog) {
+      parts.push('交手记录（最近战斗记录中）：')
+      if (a.battlelog) {
+        const r = headToHead(a.battlelog, b.id)
+        parts.push(`  ${label(a)} 视角：${r.total} 场，${r.wins}胜${r.losses}负`)
+      }
+      if (b.battlelog) {
+        const r = headToHead(b.battlelog, a.id)
+        parts.push(`  ${label(b)} 视角：${r.total} 场，${r.wins}胜${r.losses}负`)
       }
     }
-    
-    return {
-      playerId,
-      playerName,
-      totalWins,
-      totalBattles,
-      winRate,
-      url
+
+    return parts.join('\n')
+  }
+
+  const TREND_RANGES: Record<string, { label: string; days: number }> = {
+    day: { label: '近 1 天', days: 1 },
+    week: { label: '近 7 天', days: 7 },
+    month: { label: '近 30 天', days: 30 },
+  }
+
+  function formatTrend(playerId: string, snapshots: StreetFighter6Snapshot[], rangeLabel: string, playerName?: string): string {
+    const parts: string[] = []
+    const playerInfo = playerName ? `${playerName} (ID: ${playerId})` : playerId
+    parts.push(`玩家：${playerInfo}`)
+
+    const first = snapshots[0]
+    const last = snapshots[snapshots.length - 1]
+    parts.push(`角色：${last.character}（${rangeLabel}，共 ${snapshots.length} 条记录）`)
+
+    const signed = (n: number) => `${n >= 0 ? '+' : ''}${n.toLocaleString()}`
+    parts.push(`排位积分：${first.rankPoints.toLocaleString()} → ${last.rankPoints.toLocaleString()}（${signed(last.rankPoints - first.rankPoints)}）`)
+    const peakLp = snapshots.reduce((peak, s) => s.rankPoints > peak.rankPoints ? s : peak)
+    parts.push(`最高积分：${peakLp.rankPoints.toLocaleString()}（${formatDateTime(peakLp.createdAt)}）`)
+
+    const withMr = snapshots.filter(s => s.masterRate > 0)
+    if (withMr.length > 0) {
+      const firstMr = withMr[0]
+      const lastMr = withMr[withMr.length - 1]
+      parts.push(`Master Rate：${firstMr.masterRate.toLocaleString()} → ${lastMr.masterRate.toLocaleString()}（${signed(lastMr.masterRate - firstMr.masterRate)}）`)
+      const peakMr = withMr.reduce((peak, s) => s.masterRate > peak.masterRate ? s : peak)
+      parts.push(`最高 MR：${peakMr.masterRate.toLocaleString()}（${formatDateTime(peakMr.createdAt)}）`)
     }
-  }
 
-  async function getRankDataById(id: string): Promise<RankData> {
-    const cacheKey = `rank:${id}`
-    const cached = rankCache.get(cacheKey)
-    if (cached) {
-      debugLog(`从缓存获取排位数据: ${id}`)
-      return cached
+    // 并非每条快照都记录了胜场，取首尾两条有记录的快照计算
+    const withStats = snapshots.filter(s => s.battles >= 0)
+    const firstStats = withStats[0]
+    const lastStats = withStats[withStats.length - 1]
+    if (firstStats && lastStats.battles > firstStats.battles) {
+      parts.push(`期间对战：${lastStats.battles - firstStats.battles} 场，胜 ${lastStats.wins - firstStats.wins} 场`)
     }
 
-    debugLog(`开始获取排位数据: ${id}`)
-    const url = profileUrl(id)
-    const html = await fetchHtml(url)
-    
-    debugLog(`页面内容长度: ${html.length}`)
-    debugLog(`页面前200字符: ${html.substring(0, 200)}`)
-    
-    if (looksLikeLoginPage(html)) {
-      warnLog('检测到登录页面，Cookie可能无效')
-      throw new Error('需要有效登录 Cookie 才能访问排位信息。')
+    // 段位变化，积分上升视为升段
+    const changes: string[] = []
+    for (let i = 1; i < snapshots.length; i++) {
+      const prev = snapshots[i - 1]
+      const curr = snapshots[i]
+      if (prev.rankName === curr.rankName) continue
+      const up = curr.rankPoints > prev.rankPoints || (curr.masterRate > 0 && prev.masterRate === 0)
+      changes.push(`  ${formatDateTime(curr.createdAt)} ${prev.rankName} → ${curr.rankName} ${up ? '↑' : '↓'}`)
+    }
+    if (changes.length > 0) {
+      parts.push('段位变化：')
+      parts.push(...changes)
     }
 
-    const rankData = parseRankData(html, id)
-    debugLog(`解析结果:`, rankData)
-    
-    // 如果解析出的数据都是默认值，可能是页面结构问题
-    if (rankData.character === '未知' && rankData.rankPoints === 0) {
-      warnLog('解析结果异常，页面可能需要登录或结构已变更')
-      throw new Error('无法解析排位信息，可能需要重新设置Cookie或页面结构已变更。')
+    return parts.join('\n')
+  }
+
+  // 等待消息末尾的排队提示，没有排队时为空
+  function queueHint() {
+    const position = scheduler.queuePosition()
+    return position > 0 ? `\n⏳ 当前请求较多，排在第 ${position} 位` : ''
+  }
+
+  function cooldownSeconds(bucket: CooldownBucket) {
+    if (bucket === 'rank') return config.rankCooldown
+    if (bucket === 'search') return config.searchCooldown
+    return config.cooldown
+  }
+
+  // 按配置的范围检查冷却，仍在冷却中时返回提示文本。
+  // 同一命令无论查询哪个玩家都共用一个桶，避免换着ID刷屏
+  async function checkCooldown(session: Session, bucket: CooldownBucket): Promise<string | undefined> {
+    if (config.cooldownExemptAuthority > 0) {
+      const user = await session.observeUser(['authority'])
+      if (user.authority >= config.cooldownExemptAuthority) return
     }
-    
-    rankCache.set(cacheKey, rankData)
-    infoLog(`成功获取并缓存排位数据: ${id}`)
-    return rankData
+    const scope = config.cooldownScope === 'global'
+      ? 'global'
+      : config.cooldownScope === 'channel' && !session.isDirect
+        ? `c:${session.platform}:${session.channelId}`
+        : `u:${session.platform}:${session.userId}`
+    const wait = rateLimiter.take(`${bucket}:${scope}`, cooldownSeconds(bucket), config.cooldownBurst)
+    if (wait > 0) return `查询太频繁，请 ${wait} 秒后再试。`
   }
 
-  async function getWinRateDataById(id: string): Promise<WinRateData> {
-    const cacheKey = `winrate:${id}`
-    const cached = winRateCache.get(cacheKey)
-    if (cached) {
-      debugLog(`从缓存获取胜率数据: ${id}`)
-      return cached
+  // 旧版本按平台用户ID保存绑定，没有记录平台。
+  // 迁移时借助 Koishi 的 binding 表找到该平台用户ID对应的 Koishi 用户；
+  // 同一平台用户ID出现在多个平台时无法判断归属，保留原记录，由用户重新绑定。
+  // 启动时全量迁移后仍未迁移的平台用户ID，之后只有这些用户的命令才需要再查询数据库
+  let pendingLegacyUsers: Set<string> | undefined
+
+  async function migrateLegacyBindings(pid?: string) {
+    if (pid && pendingLegacyUsers && !pendingLegacyUsers.has(pid)) return
+    const legacy = await ctx.database.get('streetfighter6_binding', pid ? { aid: 0, userId: pid } : { aid: 0 })
+    if (!pid) pendingLegacyUsers = new Set(legacy.map(b => b.userId))
+    if (legacy.length === 0) {
+      if (pid) pendingLegacyUsers?.delete(pid)
+      return
     }
 
-    debugLog(`开始获取胜率数据: ${id}`)
-    const url = playUrl(id)
-    const html = await fetchHtml(url)
-    
-    if (looksLikeLoginPage(html)) {
-      throw new Error('需要登录才能查看此页面，请检查Cookie设置')
+    for (const userId of new Set(legacy.map(b => b.userId))) {
+      const accounts = await ctx.database.get('binding', { pid: userId })
+      if (accounts.length !== 1) {
+        debugLog(`旧绑定 ${userId} 对应 ${accounts.length} 个平台账号，暂不迁移`)
+        // 对应多个平台账号时无法自动判断，不再重复尝试；没有平台账号时等该用户首次使用后再迁移
+        if (accounts.length > 1) pendingLegacyUsers?.delete(userId)
+        continue
+      }
+      const { aid, platform } = accounts[0]
+      const existing = await getUserBindings(aid)
+      let hasDefault = existing.some(b => b.isDefault)
+      for (const row of legacy.filter(b => b.userId === userId)) {
+        if (existing.some(b => b.playerId === row.playerId)) {
+          await ctx.database.remove('streetfighter6_binding', { id: row.id })
+          continue
+        }
+        // 旧数据只有一个绑定且没有默认标记
+        const isDefault = !hasDefault
+        hasDefault = true
+        await ctx.database.set('streetfighter6_binding', { id: row.id }, { aid, userId: `${platform}:${userId}`, isDefault })
+      }
+      infoLog(`已迁移旧绑定 ${platform}:${userId} → Koishi 用户 ${aid}`)
+      pendingLegacyUsers?.delete(userId)
     }
+  }
 
-    const winRateData = parseWinRateData(html, id)
-    debugLog(`胜率解析结果:`, winRateData)
-    
-    // 如果解析出的数据都是默认值，可能是页面结构问题
-    if (winRateData.totalBattles === 0 && winRateData.winRate === 0) {
-      warnLog('胜率解析结果异常，页面可能需要登录或结构已变更')
-      throw new Error('无法解析胜率信息，可能需要重新设置Cookie或页面结构已变更。')
+  ctx.on('ready', async () => {
+    try {
+      await migrateLegacyBindings()
+    } catch (e) {
+      warnLog('迁移旧绑定失败:', e)
     }
-    
-    winRateCache.set(cacheKey, winRateData)
-    infoLog(`成功获取并缓存胜率数据: ${id}`)
-    return winRateData
+  })
+
+  // 获取会话对应的 Koishi 用户ID，并顺带迁移该用户尚未迁移的旧绑定
+  async function getSessionAid(session: Session): Promise<number> {
+    const user = await session.observeUser(['id'])
+    await migrateLegacyBindings(session.userId)
+    return user.id
   }
 
-  async function takeScreenshot(id: string): Promise<Buffer> {
-    const cacheKey = `screenshot:${id}`
-    const cached = screenshotCache.get(cacheKey)
-    if (cached) {
-      debugLog(`从缓存获取截图: ${id}`)
-      return cached
+  // 获取会话用户绑定的玩家ID
+  async function getSessionPlayerId(session: Session, account?: string): Promise<string | null> {
+    return getUserPlayerId(await getSessionAid(session), account)
+  }
+
+  // 获取用户的所有绑定，按绑定先后排序
+  async function getUserBindings(aid: number): Promise<StreetFighter6Binding[]> {
+    const bindings = await ctx.database.get('streetfighter6_binding', { aid })
+    return bindings.sort((a, b) => a.id - b.id)
+  }
+
+  // 按别名、玩家ID或序号（从 1 开始）选择绑定；未指定时使用默认绑定，没有默认绑定时使用最早的一个
+  function pickBinding(bindings: StreetFighter6Binding[], account?: string): StreetFighter6Binding | undefined {
+    if (!account) return bindings.find(b => b.isDefault) || bindings[0]
+    const key = account.trim()
+    return bindings.find(b => b.alias && b.alias === key)
+      || bindings.find(b => b.playerId === key)
+      || (/^\d{1,2}$/.test(key) ? bindings[parseInt(key) - 1] : undefined)
+  }
+
+  // 获取用户绑定的玩家ID
+  async function getUserPlayerId(aid: number, account?: string): Promise<string | null> {
+    try {
+      const binding = pickBinding(await getUserBindings(aid), account)
+      return binding ? binding.playerId : null
+    } catch (e) {
+      warnLog('获取用户绑定ID失败:', e)
+      return null
     }
+  }
 
-    // 检查是否有 puppeteer 服务
-    if (!ctx.puppeteer) {
-      throw new Error('需要安装 puppeteer 服务才能使用截图功能。请安装 koishi-plugin-puppeteer。')
+  // 找不到绑定时的提示
+  function unboundMessage(account?: string): string {
+    return account
+      ? `未找到账号 ${account} 的绑定，可使用 我的绑定 查看已绑定的账号。`
+      : '未绑定玩家ID。请先使用：绑定ID <玩家ID>'
+  }
+
+  function formatBinding(binding: StreetFighter6Binding): string {
+    const player = binding.playerName ? `${binding.playerName} (${binding.playerId})` : binding.playerId
+    return `${player}${binding.alias ? `（${binding.alias}）` : ''}`
+  }
+
+  // 添加用户绑定的玩家ID，已绑定同一ID时只更新名称和别名；第一个绑定自动成为默认
+  async function addUserBinding(aid: number, userId: string, playerId: string, playerName: string, alias = ''): Promise<StreetFighter6Binding> {
+    const bindings = await getUserBindings(aid)
+    if (alias) {
+      if (/^\d{1,2}$/.test(alias)) throw new Error('别名不能是纯数字序号。')
+      const conflict = bindings.find(b => b.alias === alias && b.playerId !== playerId)
+      if (conflict) throw new Error(`别名 ${alias} 已用于玩家ID ${conflict.playerId}。`)
     }
 
-    debugLog(`开始截图流程: ${id}`)
-    const url = profileUrl(id)
-    const page = await ctx.puppeteer.page()
-    
-    try {
-      // 设置更真实的浏览器环境
-      debugLog('设置浏览器环境')
-      await page.setUserAgent(config.userAgent)
-      await page.setExtraHTTPHeaders({
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8',
-        'Accept-Encoding': 'gzip, deflate, br',
-        'DNT': '1',
-        'Connection': 'keep-alive',
-        'Upgrade-Insecure-Requests': '1',
-      })
+    const existing = bindings.find(b => b.playerId === playerId)
+    if (existing) {
+      existing.playerName = playerName
+      if (alias) existing.alias = alias
+      await ctx.database.set('streetfighter6_binding', { id: existing.id }, { playerName, alias: existing.alias })
+      infoLog(`用户 ${userId} 已绑定玩家ID ${playerId}，更新名称: ${playerName}，别名: ${existing.alias}`)
+      return existing
+    }
 
-      // 设置Cookie
-      if (runtimeCookie) {
-        debugLog('开始设置Cookie')
-        const cookies = runtimeCookie.split(';').map(cookie => {
-          const [name, ...valueParts] = cookie.trim().split('=')
-          const value = valueParts.join('=') // 处理值中包含=的情况
-          return {
-            name: name.trim(),
-            value: value?.trim() || '',
-            domain: '.streetfighter.com'
-          }
-        }).filter(cookie => cookie.name && cookie.value)
-        
-        if (cookies.length > 0) {
-          await page.setCookie(...cookies)
-          debugLog(`成功设置 ${cookies.length} 个Cookie`)
-        }
-      }
+    const binding = await ctx.database.create('streetfighter6_binding', {
+      aid,
+      userId,
+      playerId,
+      playerName,
+      alias,
+      isDefault: bindings.length === 0,
+    })
+    infoLog(`成功添加用户 ${userId} 的玩家ID: ${playerId}`)
+    return binding
+  }
 
-      await page.setViewport({ 
-        width: 1920, 
-        height: 1080 
-      })
-      
-      debugLog('开始导航到页面:', url)
-      
-      // 导航到页面并等待加载
-      await page.goto(url, { 
-        waitUntil: 'domcontentloaded',
-        timeout: HTTP_TIMEOUT 
-      })
-      
-      debugLog('页面导航完成，等待内容加载')
-      // 额外等待，确保动态内容加载
-      await new Promise(resolve => setTimeout(resolve, 3000))
-      
-      // 检查是否是错误页面
-      const pageTitle = await page.evaluate(() => document.title)
-      const pageText = await page.evaluate(() => document.body.innerText)
-      
-      debugLog(`页面标题: ${pageTitle}`)
-      debugLog(`页面文本前200字符: ${pageText.substring(0, 200)}`)
-      
-      if (pageText.includes('403') || pageText.includes('ERROR') || pageText.includes('blocked')) {
-        warnLog('检测到访问被拒绝页面')
-        throw new Error('访问被拒绝：可能是Cookie无效或网站检测到自动化访问。请重新获取Cookie。')
-      }
-      
-      // 尝试找到overview区域（包含角色信息和数据）
-      const selectors = [
-        '.overview_inner__cN9HT',              // 完整的overview区域
-        '.overview_bg__13XYX',                 // overview背景区域  
-        '.character_character_status__5EtcB',  // 只是角色状态
-        'article[class*="character_status"]',   // 模糊匹配
-        'article[class*="character"]',          // 更宽泛的匹配
-        'main',                                 // 兜底选择器
-        'body'                                  // 最后的兜底
-      ]
-      
-      let element = null
-      let usedSelector = ''
-      
-      for (const selector of selectors) {
-        try {
-          debugLog(`尝试选择器: ${selector}`)
-          await page.waitForSelector(selector, { timeout: 3000 })
-          element = await page.$(selector)
-          if (element) {
-            usedSelector = selector
-            debugLog(`成功找到元素，使用选择器: ${selector}`)
-            break
-          }
-        } catch (e) {
-          debugLog(`选择器 ${selector} 失败，尝试下一个`)
-          continue
-        }
-      }
-      
-      if (element) {
-        debugLog(`开始截取元素 (${usedSelector})`)
-        const screenshot = await element.screenshot({ type: 'png' })
-        screenshotCache.set(cacheKey, screenshot)
-        infoLog(`成功完成截图并缓存: ${id}`)
-        return screenshot
-      }
-      
-      // 最后兜底：截取整个页面
-      warnLog('所有选择器失败，截取整个页面')
-      const screenshot = await page.screenshot({ type: 'png', fullPage: false })
-      screenshotCache.set(cacheKey, screenshot)
-      return screenshot
-      
-    } finally {
-      await page.close()
-      debugLog('浏览器页面已关闭')
+  // 将指定绑定设为默认
+  async function setDefaultBinding(aid: number, binding: StreetFighter6Binding) {
+    await ctx.database.set('streetfighter6_binding', { aid }, { isDefault: false })
+    await ctx.database.set('streetfighter6_binding', { id: binding.id }, { isDefault: true })
+    infoLog(`用户 ${aid} 的默认绑定设为: ${binding.playerId}`)
+  }
+
+  // 删除用户绑定的玩家ID，删除的是默认绑定时由最早的剩余绑定接替
+  async function removeUserBinding(aid: number, binding: StreetFighter6Binding) {
+    await ctx.database.remove('streetfighter6_binding', { id: binding.id })
+    infoLog(`成功移除用户 ${aid} 的玩家ID绑定: ${binding.playerId}`)
+    const remaining = await getUserBindings(aid)
+    if (binding.isDefault && remaining.length > 0 && !remaining.some(b => b.isDefault)) {
+      await setDefaultBinding(aid, remaining[0])
     }
   }
 
-  async function takeWinRateScreenshot(id: string): Promise<Buffer> {
-    const cacheKey = `winrate_screenshot:${id}`
-    const cached = winRateScreenshotCache.get(cacheKey)
-    if (cached) {
-      debugLog(`从缓存获取胜率截图: ${id}`)
-      return cached
+  // 快照为补全胜场而额外请求胜率页面的最小间隔，避免群排行、轮询等批量查询使请求量翻倍
+  const SNAPSHOT_WINRATE_INTERVAL = 6 * 60 * 60 * 1000
+  const snapshotWinRateFetchedAt = new Map<string, number>()
+
+  // 快照使用的胜率：优先使用缓存，未缓存时每个玩家每隔一段时间才额外请求一次，否则不记录胜场
+  async function getSnapshotWinRate(playerId: string): Promise<WinRateData | undefined> {
+    const cached = winRateCache.peek(`winrate:${playerId}`)
+    if (cached) return cached
+    const fetchedAt = snapshotWinRateFetchedAt.get(playerId)
+    if (fetchedAt && Date.now() - fetchedAt < SNAPSHOT_WINRATE_INTERVAL) return
+    snapshotWinRateFetchedAt.set(playerId, Date.now())
+    try {
+      return await getWinRateDataById(playerId)
+    } catch (e) {
+      debugLog(`获取胜率失败，快照不记录胜场: ${playerId}`, e)
     }
+  }
 
-    debugLog(`开始胜率截图流程: ${id}`)
-    const url = playUrl(id)
-    const page = await ctx.puppeteer.page()
-    
+  // 记录段位快照，同时记录各角色的累计胜场；与该角色上一条快照完全相同时跳过
+  async function recordSnapshot(data: RankData) {
     try {
-      // 设置浏览器环境
-      debugLog('设置浏览器环境')
-      await page.setUserAgent(config.userAgent)
-      await page.setExtraHTTPHeaders({
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8',
-        'Accept-Encoding': 'gzip, deflate, br',
-        'Cache-Control': 'no-cache',
-        'Referer': profileUrl(id)
-      })
-      
-      // 设置视窗尺寸
-      await page.setViewport({ width: 1920, height: 1080 })
-      
-      // 设置Cookie
-      if (runtimeCookie) {
-        debugLog('开始设置Cookie')
-        const cookies = runtimeCookie.split(';').map(cookie => {
-          const [name, ...valueParts] = cookie.trim().split('=')
-          const value = valueParts.join('=') // 处理值中包含=的情况
-          return {
-            name: name.trim(),
-            value: value?.trim() || '',
-            domain: '.streetfighter.com'
-          }
-        }).filter(cookie => cookie.name && cookie.value)
-        
-        if (cookies.length > 0) {
-          await page.setCookie(...cookies)
-          debugLog(`成功设置 ${cookies.length} 个Cookie`)
-        }
+      const leagues = [...data.leagues]
+      if (!leagues.some(l => l.isMain)) {
+        leagues.push({ character: data.character, rankName: data.rankName, rankPoints: data.rankPoints, masterRate: data.masterRate, isMain: true })
       }
+      const winRate = await getSnapshotWinRate(data.playerId)
 
-      // 导航到胜率页面
-      debugLog(`开始导航到页面: ${url}`)
-      await page.goto(url, { 
-        waitUntil: 'domcontentloaded', // 改为更快的等待条件
-        timeout: 30000  // 增加超时时间到30秒
-      })
-      debugLog('页面导航完成，等待内容加载')
-      
-      // 等待胜率内容加载 - 使用新的winning_rate_winning_rate类
-      try {
-        await page.waitForSelector('[class*="winning_rate_winning_rate"]', { timeout: 15000 })
-        debugLog('胜率内容加载完成')
-      } catch (e) {
-        debugLog('等待胜率内容超时，尝试直接截图')
-        // 如果等待超时，仍然尝试截图，可能内容已经加载但选择器不匹配
-      }
-      
-      // 截图指定区域或整个页面
-      let screenshot: Buffer
-      try {
-        // 尝试截取指定的winning_rate_winning_rate区域
-        const element = await page.$('[class*="winning_rate_winning_rate"]')
-        if (element) {
-          debugLog('找到winning_rate_winning_rate元素，截取指定区域')
-          screenshot = await element.screenshot({ type: 'png' })
-        } else {
-          debugLog('未找到winning_rate_winning_rate元素，截取整个页面')
-          screenshot = await page.screenshot({
-            fullPage: true,
-            type: 'png'
-          })
+      const now = new Date()
+      let created = 0
+      for (const league of leagues) {
+        const stats = winRate?.characters.find(c => c.character === league.character)
+        const row = {
+          playerId: data.playerId,
+          character: league.character,
+          rankName: league.rankName,
+          rankPoints: league.rankPoints,
+          masterRate: league.masterRate || 0,
+          wins: stats ? stats.wins : -1,
+          battles: stats ? stats.battles : -1,
+          isMain: league.isMain,
         }
-      } catch (e) {
-        debugLog('区域截图失败，使用整页截图')
-        screenshot = await page.screenshot({
-          fullPage: true,
-          type: 'png'
-        })
+        const [last] = await ctx.database.get('streetfighter6_snapshot', {
+          playerId: data.playerId,
+          character: league.character,
+        }, { sort: { createdAt: 'desc' }, limit: 1 })
+        if (last && last.rankName === row.rankName && last.rankPoints === row.rankPoints
+          && last.masterRate === row.masterRate && last.isMain === row.isMain
+          && (row.battles < 0 || last.battles === row.battles)) continue
+        await ctx.database.create('streetfighter6_snapshot', { ...row, createdAt: now })
+        created++
       }
-      
-      winRateScreenshotCache.set(cacheKey, screenshot)
-      infoLog(`成功完成胜率截图并缓存: ${id}`)
-      return screenshot
-      
-    } finally {
-      await page.close()
-      debugLog('浏览器页面已关闭')
+      debugLog(`记录段位快照: ${data.playerId}，新增 ${created} 条`)
+    } catch (e) {
+      warnLog('记录段位快照失败:', e)
     }
   }
 
-  async function takeBattlelogScreenshot(id: string): Promise<Buffer> {
-    const cacheKey = `battlelog_screenshot:${id}`
-    const cached = battlelogScreenshotCache.get(cacheKey)
-    if (cached) {
-      debugLog(`从缓存获取战斗记录截图: ${id}`)
-      return cached
+  // 获取玩家某个时间点之后的段位快照（按时间正序）
+  async function getSnapshots(playerId: string, since: Date): Promise<StreetFighter6Snapshot[]> {
+    return ctx.database.get('streetfighter6_snapshot', {
+      playerId,
+      createdAt: { $gte: since },
+    }, { sort: { createdAt: 'asc' } })
+  }
+
+  // ===== 段位变动通知 =====
+
+  function inQuietHours(date = new Date()): boolean {
+    const { notifyQuietStart: start, notifyQuietEnd: end } = config
+    if (start === end) return false
+    const hour = date.getHours()
+    return start < end ? hour >= start && hour < end : hour >= start || hour < end
+  }
+
+  // 比较两次状态，生成需要通知的变动描述
+  function describeRankChanges(prev: NotifyState, curr: NotifyState): string[] {
+    const changes: string[] = []
+    if (prev.character !== curr.character) {
+      changes.push(`主用角色变更：${prev.character} → ${curr.character}`)
+      // 不同角色的段位不可比较
+      return changes
+    }
+    if (prev.rankName !== curr.rankName) {
+      const up = curr.rankPoints > prev.rankPoints || curr.masterRate > prev.masterRate
+      changes.push(`${up ? '升段 ⬆️' : '降段 ⬇️'}：${prev.rankName} → ${curr.rankName}`)
+    }
+    for (const threshold of config.notifyMrThresholds) {
+      if (prev.masterRate < threshold && curr.masterRate >= threshold) {
+        changes.push(`MR 突破 ${threshold}：${prev.masterRate} → ${curr.masterRate}`)
+      } else if (prev.masterRate >= threshold && curr.masterRate < threshold) {
+        changes.push(`MR 跌破 ${threshold}：${prev.masterRate} → ${curr.masterRate}`)
+      }
     }
+    return changes
+  }
 
-    debugLog(`开始战斗记录截图流程: ${id}`)
-    const url = battlelogUrl(id)
-    const page = await ctx.puppeteer.page()
-    
+  // 订阅上记录的基准状态；段位查询也会写入快照，因此不能以快照作为基准
+  function getNotifyState(sub: StreetFighter6Subscription): NotifyState | undefined {
+    if (!sub.notifyRankName) return
+    return {
+      character: sub.notifyCharacter,
+      rankName: sub.notifyRankName,
+      rankPoints: sub.notifyRankPoints,
+      masterRate: sub.notifyMasterRate,
+    }
+  }
+
+  function isSameNotifyState(a: NotifyState, b: NotifyState) {
+    return a.character === b.character && a.rankName === b.rankName
+      && a.rankPoints === b.rankPoints && a.masterRate === b.masterRate
+  }
+
+  async function sendSubscriptionMessage(sub: StreetFighter6Subscription, content: string) {
+    const bot = ctx.bots.find(b => b.platform === sub.platform && b.selfId === sub.selfId)
+      || ctx.bots.find(b => b.platform === sub.platform)
+    if (!bot) {
+      debugLog(`没有可用的 ${sub.platform} 机器人，跳过通知: ${sub.channelId}`)
+      return
+    }
     try {
-      // 设置浏览器环境
-      debugLog('设置浏览器环境')
-      await page.setUserAgent(config.userAgent)
-      await page.setExtraHTTPHeaders({
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8',
-        'Accept-Encoding': 'gzip, deflate, br',
-        'Cache-Control': 'no-cache',
-        'Referer': profileUrl(id)
-      })
-      
-      // 设置视窗尺寸
-      await page.setViewport({ width: 1920, height: 1080 })
-      
-      // 设置Cookie
-      if (runtimeCookie) {
-        debugLog('开始设置Cookie')
-        const cookies = runtimeCookie.split(';').map(cookie => {
-          const [name, ...valueParts] = cookie.trim().split('=')
-          const value = valueParts.join('=') // 处理值中包含=的情况
-          return {
-            name: name.trim(),
-            value: value?.trim() || '',
-            domain: '.streetfighter.com'
+      await bot.sendMessage(sub.channelId, content)
+    } catch (e) {
+      warnLog(`发送段位通知失败 ${sub.platform}:${sub.channelId}:`, e)
+    }
+  }
+
+  let polling = false
+  async function pollSubscriptions() {
+    if (polling) return
+    if (inQuietHours()) {
+      debugLog('处于免打扰时间，跳过本次段位轮询')
+      return
+    }
+    polling = true
+    try {
+      const subscriptions = await ctx.database.get('streetfighter6_subscription', {})
+      const playerIds = [...new Set(subscriptions.map(sub => sub.playerId))]
+      debugLog(`开始段位轮询，共 ${playerIds.length} 名玩家`)
+
+      for (const playerId of playerIds) {
+        try {
+          const data = await getRankDataById(playerId)
+          const curr: NotifyState = {
+            character: data.character,
+            rankName: data.rankName,
+            rankPoints: data.rankPoints,
+            masterRate: data.masterRate || 0,
           }
-        }).filter(cookie => cookie.name && cookie.value)
-        
-        if (cookies.length > 0) {
-          await page.setCookie(...cookies)
-          debugLog(`成功设置 ${cookies.length} 个Cookie`)
-        }
-      }
+          const playerInfo = data.playerName ? `${data.playerName} (ID: ${playerId})` : playerId
 
-      // 导航到战斗记录页面
-      debugLog(`开始导航到页面: ${url}`)
-      await page.goto(url, { 
-        waitUntil: 'domcontentloaded', // 更快的等待条件
-        timeout: 30000  // 30秒超时
-      })
-      debugLog('页面导航完成，等待内容加载')
-      
-      // 等待战斗记录内容加载
-      try {
-        await page.waitForSelector('[class*="battlelog_inner"]', { timeout: 15000 })
-        debugLog('战斗记录内容加载完成')
-      } catch (e) {
-        debugLog('等待战斗记录内容超时，尝试直接截图')
-        // 如果等待超时，仍然尝试截图，可能内容已经加载但选择器不匹配
-      }
-      
-      // 截图指定区域或整个页面
-      let screenshot: Buffer
-      try {
-        // 尝试截取指定的battlelog_inner区域
-        const element = await page.$('[class*="battlelog_inner"]')
-        if (element) {
-          debugLog('找到battlelog_inner元素，截取指定区域')
-          screenshot = await element.screenshot({ type: 'png' })
-        } else {
-          debugLog('未找到battlelog_inner元素，截取整个页面')
-          screenshot = await page.screenshot({
-            fullPage: true,
-            type: 'png'
-          })
+          // 每个订阅各自与其记录的基准比较，新订阅首次轮询只建立基准
+          for (const sub of subscriptions.filter(sub => sub.playerId === playerId)) {
+            const prev = getNotifyState(sub)
+            if (prev && isSameNotifyState(prev, curr)) continue
+            if (prev) {
+              const changes = describeRankChanges(prev, curr)
+              if (changes.length) {
+                infoLog(`玩家 ${playerId} 段位变动: ${changes.join('; ')}`)
+                await sendSubscriptionMessage(sub, [`📢 段位变动：${playerInfo}`, ...changes].join('\n'))
+              }
+            }
+            await ctx.database.set('streetfighter6_subscription', { id: sub.id }, {
+              notifyCharacter: curr.character,
+              notifyRankName: curr.rankName,
+              notifyRankPoints: curr.rankPoints,
+              notifyMasterRate: curr.masterRate,
+            })
+          }
+        } catch (e) {
+          warnLog(`段位轮询获取 ${playerId} 失败:`, e)
         }
-      } catch (e) {
-        debugLog('区域截图失败，使用整页截图')
-        screenshot = await page.screenshot({
-          fullPage: true,
-          type: 'png'
-        })
+        // 玩家之间间隔请求，避免对 Buckler 造成压力
+        await ctx.sleep(3000)
       }
-      
-      battlelogScreenshotCache.set(cacheKey, screenshot)
-      infoLog(`成功完成战斗记录截图并缓存: ${id}`)
-      return screenshot
-      
+    } catch (e) {
+      warnLog('段位轮询失败:', e)
     } finally {
-      await page.close()
-      debugLog('浏览器页面已关闭')
+      polling = false
     }
   }
 
-  function formatRankData(data: RankData): string {
-    const parts: string[] = []
-    const playerInfo = data.playerName ? `${data.playerName} (ID: ${data.playerId})` : data.playerId
-    parts.push(`玩家：${playerInfo}`)
-    parts.push(`使用角色：${data.character}`)
-    parts.push(`段位：${data.rankName}`)
-    parts.push(`排位积分：${data.rankPoints.toLocaleString()}`)
-    parts.push(`格斗点：${data.fightingPoints.toLocaleString()}`)
-    if (data.title !== '无称号') parts.push(`称号：${data.title}`)
-    parts.push(`详情：${data.url}`)
-    return parts.join('\n')
+  if (config.enableNotification) {
+    ctx.setInterval(() => pollSubscriptions(), config.notifyInterval * 60 * 1000)
   }
 
-  function formatWinRateData(data: WinRateData): string {
-    const parts: string[] = []
-    const playerInfo = data.playerName ? `${data.playerName} (ID: ${data.playerId})` : data.playerId
-    parts.push(`玩家：${playerInfo}`)
-    parts.push(`总战绩：${data.totalWins}胜/${data.totalBattles}战`)
-    parts.push(`总胜率：${data.winRate.toFixed(2)}%`)
-    parts.push(`详情：${data.url}`)
-    return parts.join('\n')
+  // 解析命令参数中的玩家：可以是玩家ID，也可以是 @用户（使用其绑定的玩家ID）
+  async function resolvePlayerArg(session: Session, arg: string): Promise<{ id?: string; error?: string }> {
+    const at = h.select(h.parse(arg), 'at')[0]
+    if (at) {
+      const userId = at.attrs.id
+      const name = at.attrs.name || userId
+      await migrateLegacyBindings(userId)
+      const user = await ctx.database.getUser(session.platform, userId, ['id'])
+      const id = user && await getUserPlayerId(user.id)
+      if (!id) return { error: `用户 ${name} 尚未绑定玩家ID。` }
+      return { id }
+    }
+    const id = arg.trim()
+    if (!/^\d{5,}$/.test(id)) return { error: `玩家ID格式错误：${id}，应该是5位以上的数字。` }
+    return { id }
   }
 
-  function inCooldown(key: string): boolean {
-    const last = cooldownMap.get(key) || 0
-    const now = Date.now()
-    if (now - last < COOLDOWN_SEC * 1000) return true
-    cooldownMap.set(key, now)
-    return false
+  // 查询命令的目标玩家：提供了参数时解析玩家ID或 @用户，否则使用调用者的绑定
+  async function resolveQueryTarget(session: Session, playerId?: string, account?: string): Promise<{ id?: string; error?: string }> {
+    if (playerId?.trim()) return resolvePlayerArg(session, playerId)
+    const id = await getSessionPlayerId(session, account)
+    if (!id) return { error: unboundMessage(account) }
+    return { id }
   }
 
-  // 获取用户绑定的玩家ID
-  async function getUserPlayerId(userId: string): Promise<string | null> {
-    try {
-      const bindings = await ctx.database.get('streetfighter6_binding', { userId })
-      return bindings.length > 0 ? bindings[0].playerId : null
-    } catch (e) {
-      warnLog('获取用户绑定ID失败:', e)
-      return null
+  // 为会话用户保存绑定，并生成回复
+  async function bindPlayer(session: Session, playerId: string, playerName: string, alias?: string): Promise<string> {
+    const aid = await getSessionAid(session)
+    const binding = await addUserBinding(aid, `${session.platform}:${session.userId}`, playerId, playerName, alias?.trim() || '')
+    const account = binding.alias || playerId
+    const suffix = binding.isDefault ? '' : `\n使用时添加 -a ${account} 指定此账号，或使用 默认绑定 ${account} 设为默认`
+    return `已绑定：${formatBinding(binding)}\n之后可直接使用：排位查询 / 胜率查询 / 战斗记录${suffix}`
+  }
+
+  // 获取当前群内绑定了玩家ID的成员，每人使用其默认绑定
+  async function getChannelBindings(session: Session): Promise<Array<{ memberName: string; binding: StreetFighter6Binding }>> {
+    const members = new Map<string, string>()
+    for await (const member of session.bot.getGuildMemberIter(session.guildId)) {
+      const pid = member.user?.id
+      if (pid) members.set(pid, member.nick || member.name || member.user.name || pid)
     }
+    debugLog(`群 ${session.guildId} 共 ${members.size} 名成员`)
+    if (members.size === 0) return []
+
+    const accounts = await ctx.database.get('binding', { platform: session.platform, pid: [...members.keys()] })
+    if (accounts.length === 0) return []
+    const bindings = await ctx.database.get('streetfighter6_binding', { aid: accounts.map(a => a.aid) })
+
+    const result: Array<{ memberName: string; binding: StreetFighter6Binding }> = []
+    for (const account of accounts) {
+      const binding = pickBinding(bindings.filter(b => b.aid === account.aid).sort((a, b) => a.id - b.id))
+      if (binding) result.push({ memberName: members.get(account.pid), binding })
+    }
+    return result
   }
 
-  // 设置用户绑定的玩家ID
-  async function setUserPlayerId(userId: string, playerId: string): Promise<boolean> {
-    try {
-      const existing = await ctx.database.get('streetfighter6_binding', { userId })
-      if (existing.length > 0) {
-        await ctx.database.set('streetfighter6_binding', { userId }, { playerId })
-      } else {
-        await ctx.database.create('streetfighter6_binding', { userId, playerId })
+  // 从排位数据中取出排行所需的数据，指定角色时使用该角色的段位
+  function toLeaderboardEntry(memberName: string, data: RankData, character?: string): LeaderboardEntry | undefined {
+    if (!character || character === data.character) {
+      return {
+        memberName,
+        playerId: data.playerId,
+        playerName: data.playerName,
+        character: data.character,
+        rankName: data.rankName,
+        rankPoints: data.rankPoints,
+        masterRate: data.masterRate || 0,
       }
-      infoLog(`成功设置用户 ${userId} 的玩家ID: ${playerId}`)
-      return true
-    } catch (e) {
-      warnLog('设置用户绑定ID失败:', e)
-      return false
+    }
+    const league = data.leagues.find(l => l.character === character)
+    if (!league) return
+    return {
+      memberName,
+      playerId: data.playerId,
+      playerName: data.playerName,
+      character: league.character,
+      rankName: league.rankName,
+      rankPoints: league.rankPoints,
+      masterRate: league.masterRate || 0,
     }
   }
 
-  // 删除用户绑定的玩家ID
-  async function removeUserPlayerId(userId: string): Promise<boolean> {
-    try {
-      await ctx.database.remove('streetfighter6_binding', { userId })
-      infoLog(`成功移除用户 ${userId} 的玩家ID绑定`)
-      return true
-    } catch (e) {
-      warnLog('移除用户绑定ID失败:', e)
-      return false
-    }
+  // Master 段位按 MR 排在前面，其余按 LP 排序
+  function sortLeaderboard(entries: LeaderboardEntry[]): LeaderboardEntry[] {
+    return [...entries].sort((a, b) => b.masterRate - a.masterRate || b.rankPoints - a.rankPoints)
+  }
+
+  function formatLeaderboard(entries: LeaderboardEntry[], title: string): string {
+    const parts: string[] = [title]
+    entries.forEach((e, index) => {
+      const score = e.masterRate ? `${e.masterRate.toLocaleString()} MR` : `${e.rankPoints.toLocaleString()} LP`
+      const player = e.playerName ? `${e.playerName}` : e.playerId
+      parts.push(`${index + 1}. ${e.memberName}（${player}）${e.character} ${e.rankName} ${score}`)
+    })
+    return parts.join('\n')
   }
 
   // 绑定ID
-  ctx.command('绑定ID <playerId:string>', '绑定你的 SF6 玩家ID')
+  ctx.command('绑定ID <playerId:string> [alias:string]', '绑定你的 SF6 玩家ID，可附带账号别名')
+    .option('name', '-n <name:string> 预期的玩家名称，与查到的名称不一致时需要确认')
     .example('绑定ID 1234567890')
-    .action(async ({ session }, playerId) => {
+    .example('绑定ID 2345678901 alt')
+    .example('绑定ID 1234567890 -n 幻想童話')
+    .action(async ({ session, options }, playerId, alias) => {
       if (!playerId) {
-        return '用法：绑定ID <玩家ID>\n例如：绑定ID 1234567890'
+        return '用法：绑定ID <玩家ID> [别名]\n例如：绑定ID 1234567890 main'
       }
       
       const id = playerId.trim()
@@ -1085,63 +3195,170 @@ function parsePlayerSearchResults(html: string): PlayerSearchResult[] {
       }
       
       try {
-        infoLog(`开始绑定ID操作，用户: ${session!.userId}, 参数: ${playerId}`)
+        infoLog(`开始绑定ID操作，用户: ${session!.platform}:${session!.userId}, 参数: ${playerId} ${alias || ''}`)
         
-        const success = await setUserPlayerId(session!.userId, id)
-        if (success) {
-          return `已绑定玩家ID：${id}\n之后可直接使用：排位查询 / 胜率查询 / 战斗记录`
-        } else {
-          return '绑定失败，请稍后重试。'
+        // 绑定前先确认玩家存在，并取得玩家名称
+        let playerName: string
+        try {
+          // 输错的ID不应留下快照
+          const data = await getRankDataById(id, false)
+          playerName = data.playerName || ''
+        } catch (e: any) {
+          warnLog(`绑定前验证玩家 ${id} 失败:`, e)
+          const message = String(e?.message)
+          if (message.includes('Cookie')) {
+            return '无法验证玩家ID：需要有效登录 Cookie。请联系管理员检查Cookie设置。'
+          }
+          if (message.includes('未找到该玩家')) {
+            return `未找到玩家ID ${id}，请检查是否输入正确。`
+          }
+          return '验证玩家ID失败，请稍后再试。'
         }
+
+        const expected = options.name?.trim()
+        if (expected && playerName && expected.toLowerCase() !== playerName.toLowerCase()) {
+          await session!.send(`玩家ID ${id} 的名称为「${playerName}」，与预期的「${expected}」不一致。\n仍要绑定请在 30 秒内回复「是」。`)
+          const reply = await session!.prompt(30000)
+          if (reply?.trim() !== '是') return '已取消绑定。'
+        }
+
+        return await bindPlayer(session!, id, playerName, alias)
       } catch (e: any) {
         warnLog('绑定ID操作失败:', e)
         return `绑定失败：${e?.message || '未知错误'}`
       }
     })
 
+  // 按玩家名称绑定
+  ctx.command('绑定名称 <playerName:string> [alias:string]', '按玩家名称搜索并绑定 SF6 玩家ID')
+    .example('绑定名称 幻想童話')
+    .example('绑定名称 幻想童話 alt')
+    .action(async ({ session }, playerName, alias) => {
+      if (!playerName?.trim()) {
+        return '用法：绑定名称 <玩家名称> [别名]\n例如：绑定名称 幻想童話'
+      }
+      const name = playerName.trim()
+
+      try {
+        infoLog(`开始按名称绑定，用户: ${session!.platform}:${session!.userId}, 名称: ${name}`)
+
+        let results: PlayerSearchResult[]
+        try {
+          results = await getPlayerSearchData(name)
+        } catch (e: any) {
+          warnLog('按名称绑定时搜索失败:', e)
+          if (String(e?.message).includes('Cookie')) {
+            return '搜索失败：需要有效登录 Cookie。请联系管理员检查Cookie设置。'
+          }
+          return `搜索失败：${e?.message || '未知错误'}`
+        }
+
+        if (results.length === 0) return `未找到名称包含 "${name}" 的玩家。`
+        if (results.length === 1) {
+          return await bindPlayer(session!, results[0].playerId, results[0].playerName, alias)
+        }
+
+        // 多个结果时列出候选，由用户回复序号选择
+        const candidates = results.slice(0, 10)
+        const lines = candidates.map((player, index) => `${index + 1}. ${player.playerName} (ID: ${player.playerId})`)
+        const more = results.length > candidates.length ? `\n（共 ${results.length} 个结果，仅显示前 ${candidates.length} 个，可使用更完整的名称搜索）` : ''
+        await session!.send([`找到 ${results.length} 个玩家：`, ...lines].join('\n') + more + '\n请在 30 秒内回复序号选择要绑定的玩家，回复其他内容取消。')
+
+        const reply = (await session!.prompt(30000))?.trim()
+        if (reply === undefined) return '等待超时，已取消绑定。'
+        const selected = /^\d+$/.test(reply) ? candidates[parseInt(reply) - 1] : undefined
+        if (!selected) return '已取消绑定。'
+
+        return await bindPlayer(session!, selected.playerId, selected.playerName, alias)
+      } catch (e: any) {
+        warnLog('按名称绑定失败:', e)
+        return `绑定失败：${e?.message || '未知错误'}`
+      }
+    })
+
   // 解绑ID
-  ctx.command('解绑ID', '清除已绑定的 SF6 玩家ID')
-    .action(async ({ session }) => {
+  ctx.command('解绑ID [account:string]', '解除已绑定的 SF6 玩家ID')
+    .example('解绑ID')
+    .example('解绑ID alt')
+    .action(async ({ session }, account) => {
       try {
-        infoLog(`开始解绑ID操作，用户: ${session!.userId}`)
-        
-        const success = await removeUserPlayerId(session!.userId)
-        if (success) {
-          return '已清除绑定的玩家ID。'
-        } else {
-          return '解绑失败，请稍后重试。'
+        infoLog(`开始解绑ID操作，用户: ${session!.platform}:${session!.userId}, 参数: ${account || ''}`)
+
+        const aid = await getSessionAid(session!)
+        const bindings = await getUserBindings(aid)
+        if (bindings.length === 0) return '你还没有绑定任何玩家ID。'
+        if (!account && bindings.length > 1) {
+          return `你绑定了 ${bindings.length} 个账号，请指定要解绑的账号（别名、玩家ID或序号），可使用 我的绑定 查看。`
         }
+
+        const binding = account ? pickBinding(bindings, account) : bindings[0]
+        if (!binding) return unboundMessage(account)
+        await removeUserBinding(aid, binding)
+        return `已解除绑定：${formatBinding(binding)}`
       } catch (e: any) {
         warnLog('解绑ID操作失败:', e)
         return `解绑失败：${e?.message || '未知错误'}`
       }
     })
 
+  // 设置默认绑定
+  ctx.command('默认绑定 <account:string>', '设置未指定账号时使用的 SF6 玩家ID')
+    .example('默认绑定 alt')
+    .action(async ({ session }, account) => {
+      if (!account) return '用法：默认绑定 <别名 / 玩家ID / 序号>'
+      try {
+        const aid = await getSessionAid(session!)
+        const binding = pickBinding(await getUserBindings(aid), account)
+        if (!binding) return unboundMessage(account)
+        await setDefaultBinding(aid, binding)
+        return `已将 ${formatBinding(binding)} 设为默认账号。`
+      } catch (e: any) {
+        warnLog('设置默认绑定失败:', e)
+        return `设置失败：${e?.message || '未知错误'}`
+      }
+    })
+
+  // 查看绑定列表
+  ctx.command('我的绑定', '查看你绑定的所有 SF6 玩家ID')
+    .action(async ({ session }) => {
+      try {
+        const bindings = await getUserBindings(await getSessionAid(session!))
+        if (bindings.length === 0) return '你还没有绑定任何玩家ID。请使用：绑定ID <玩家ID> [别名]'
+        const defaultBinding = pickBinding(bindings)
+        const lines = bindings.map((b, index) => {
+          const mark = b === defaultBinding ? ' ★默认' : ''
+          return `${index + 1}. ${formatBinding(b)}${mark}`
+        })
+        return [`你绑定了 ${bindings.length} 个账号：`, ...lines, '查询时使用 -a <别名或序号> 指定账号'].join('\n')
+      } catch (e: any) {
+        warnLog('获取绑定列表失败:', e)
+        return `获取绑定列表失败：${e?.message || '未知错误'}`
+      }
+    })
+
   // 主命令：排位查询 [玩家ID]
   ctx.command('排位查询 [playerId:string]', '查询 SF6 排位积分信息')
+    .option('account', '-a <account:string> 使用指定别名或序号的绑定账号')
+    .option('all', '-l 列出所有已定级角色的段位')
     .example('排位查询 1234567890')
-    .action(async ({ session }, playerId) => {
+    .example('排位查询 @小明')
+    .example('排位查询 1234567890 -l')
+    .example('排位查询 -a alt')
+    .action(async ({ session, options }, playerId) => {
       try {
         infoLog(`开始排位查询，用户: ${session?.userId}, 参数: ${playerId}`)
         
-        let id = playerId?.trim()
-        if (!id) {
-          // 如果没有提供参数，尝试获取绑定的ID
-          id = await getUserPlayerId(session!.userId)
+        // 支持玩家ID、@用户，未提供参数时使用已绑定的ID
+        const target = await resolveQueryTarget(session!, playerId, options.account)
+        if (target.error) {
+          warnLog(`排位查询失败：${target.error}`)
+          return target.error
         }
+        const id = target.id
         infoLog(`最终使用的玩家ID: ${id}`)
-        
-        if (!id) {
-          warnLog('排位查询失败：未绑定玩家ID且未提供参数')
-          return '未绑定玩家ID。请先使用：绑定ID <玩家ID>'
-        }
-        if (!/^\d{5,}$/.test(id)) {
-          warnLog(`排位查询失败：ID格式错误 - ${id}`)
-          return '玩家ID格式错误，应该是5位以上的数字。'
-        }
 
-        const cdKey = session?.channelId ? `c:${session.channelId}` : `u:${session?.userId ?? 'anon'}`
-        if (inCooldown(cdKey)) return `请稍候再试（冷却 ${COOLDOWN_SEC}s）`
+        const cooldown = await checkCooldown(session!, 'rank')
+        if (cooldown) return cooldown
         
         // 检查是否启用了任何输出
         if (!config.enableTextOutput && !config.enableScreenshotOutput) {
@@ -1152,10 +3369,10 @@ function parsePlayerSearchResults(html: string): PlayerSearchResult[] {
 
         // 显示等待消息
         let waitingMessageId: string | undefined
-        if (SHOW_WAITING_MESSAGE && session) {
+        if (config.showWaitingMessage && session) {
           try {
             const suffix = playerId ? '' : '（使用已绑定ID）'
-            const waitingMessage = await session.send(`🔍 正在查询玩家 ${id} 的排位信息，请稍候...${suffix}`)
+            const waitingMessage = await session.send(`🔍 正在查询玩家 ${id} 的排位信息，请稍候...${suffix}${queueHint()}`)
             if (Array.isArray(waitingMessage) && waitingMessage[0]) {
               waitingMessageId = waitingMessage[0]
             }
@@ -1212,7 +3429,7 @@ function parsePlayerSearchResults(html: string): PlayerSearchResult[] {
           
           if (results.text) {
             try {
-              const textOutput = formatRankData(results.text)
+              const textOutput = options.all ? formatLeagueOverview(results.text) : formatRankData(results.text)
               await session?.send(textOutput)
               responses.push('文本信息发送成功')
             } catch (e) {
@@ -1273,31 +3490,31 @@ function parsePlayerSearchResults(html: string): PlayerSearchResult[] {
 
   // 胜率查询命令
   ctx.command('胜率查询 [playerId:string]', '查询 SF6 胜率信息')
+    .option('sort', '-s <by:string> 角色排序方式：场数 / 胜率', { fallback: '场数' })
+    .option('min', '-m <count:natural> 隐藏对战场数少于该值的角色', { fallback: 0 })
+    .option('account', '-a <account:string> 使用指定别名或序号的绑定账号')
     .example('胜率查询 1234567890')
-    .action(async ({ session }, playerId) => {
-      let id = playerId?.trim()
-      if (!id) {
-        // 如果没有提供参数，尝试获取绑定的ID
-        id = await getUserPlayerId(session!.userId)
-      }
-      if (!id) return '未绑定玩家ID。请先使用：绑定ID <玩家ID>'
-      if (!/^\d{5,}$/.test(id)) return '玩家ID格式错误，应该是5位以上的数字。'
+    .example('胜率查询 @小明')
+    .example('胜率查询 1234567890 -s 胜率 -m 20')
+    .example('胜率查询 -a alt')
+    .action(async ({ session, options }, playerId) => {
+      const sortBy = ['胜率', 'rate'].includes(options.sort) ? 'rate' : 'battles'
+      // 支持玩家ID、@用户，未提供参数时使用已绑定的ID
+      const target = await resolveQueryTarget(session!, playerId, options.account)
+      if (target.error) return target.error
+      const id = target.id
 
-      const userId = session?.userId || 'unknown'
-      const cooldownKey = `winrate:${userId}:${id}`
-      
-      if (inCooldown(cooldownKey)) {
-        return `查询太频繁，请稍后再试。（冷却时间：${COOLDOWN_SEC}秒）`
-      }
+      const cooldown = await checkCooldown(session!, 'winrate')
+      if (cooldown) return cooldown
 
       try {
         infoLog(`开始查询胜率: ${id}`)
         
         // 显示等待消息
         let waitingMessageId: string | undefined
-        if (SHOW_WAITING_MESSAGE) {
+        if (config.showWaitingMessage) {
           const suffix = playerId ? '' : '（使用已绑定ID）'
-          const waitingMessage = await session?.send(`🔍 正在查询胜率信息，请稍候...${suffix}`)
+          const waitingMessage = await session?.send(`🔍 正在查询胜率信息，请稍候...${suffix}${queueHint()}`)
           if (waitingMessage && Array.isArray(waitingMessage) && waitingMessage[0]) {
             waitingMessageId = waitingMessage[0]
             debugLog(`显示等待消息: ${waitingMessageId}`)
@@ -1317,7 +3534,7 @@ function parsePlayerSearchResults(html: string): PlayerSearchResult[] {
           try {
             const data = await getWinRateDataById(id)
             results.text = data
-            textOutput = formatWinRateData(data)
+            textOutput = formatWinRateData(data, { sortBy, minBattles: options.min })
             debugLog(`胜率文本信息已准备`)
           } catch (e: any) {
             warnLog('胜率文本获取失败:', e)
@@ -1405,48 +3622,58 @@ function parsePlayerSearchResults(html: string): PlayerSearchResult[] {
 
   // 战斗记录查询命令
   ctx.command('战斗记录 [playerId:string]', '查询 SF6 战斗记录')
+    .option('account', '-a <account:string> 使用指定别名或序号的绑定账号')
     .example('战斗记录 1234567890')
-    .action(async ({ session }, playerId) => {
-      let id = playerId?.trim()
-      if (!id) {
-        // 如果没有提供参数，尝试获取绑定的ID
-        id = await getUserPlayerId(session!.userId)
-      }
-      if (!id) return '未绑定玩家ID。请先使用：绑定ID <玩家ID>'
-      if (!/^\d{5,}$/.test(id)) return '玩家ID格式错误，应该是5位以上的数字。'
+    .example('战斗记录 @小明')
+    .example('战斗记录 -a alt')
+    .action(async ({ session, options }, playerId) => {
+      // 支持玩家ID、@用户，未提供参数时使用已绑定的ID
+      const target = await resolveQueryTarget(session!, playerId, options.account)
+      if (target.error) return target.error
+      const id = target.id
 
-      const userId = session?.userId || 'unknown'
-      const cooldownKey = `battlelog:${userId}:${id}`
-      
-      if (inCooldown(cooldownKey)) {
-        return `查询太频繁，请稍后再试。（冷却时间：${COOLDOWN_SEC}秒）`
-      }
+      const cooldown = await checkCooldown(session!, 'battlelog')
+      if (cooldown) return cooldown
 
       try {
         infoLog(`开始查询战斗记录: ${id}`)
         
         // 显示等待消息
         let waitingMessageId: string | undefined
-        if (SHOW_WAITING_MESSAGE) {
+        if (config.showWaitingMessage) {
           const suffix = playerId ? '' : '（使用已绑定ID）'
-          const waitingMessage = await session?.send(`🔍 正在查询战斗记录，请稍候...${suffix}`)
+          const waitingMessage = await session?.send(`🔍 正在查询战斗记录，请稍候...${suffix}${queueHint()}`)
           if (waitingMessage && Array.isArray(waitingMessage) && waitingMessage[0]) {
             waitingMessageId = waitingMessage[0]
             debugLog(`显示等待消息: ${waitingMessageId}`)
           }
         }
 
-        let screenshotBuffer: Buffer | undefined
-        let errorMessage = ''
+        // 分别处理文本和截图，避免一个失败影响另一个
+        const results: { text?: BattlelogData; screenshot?: Buffer; errors: string[] } = { errors: [] }
 
-        // 处理截图
-        try {
-          debugLog('开始获取战斗记录截图')
-          screenshotBuffer = await takeBattlelogScreenshot(id)
-          debugLog('战斗记录截图已准备')
-        } catch (e: any) {
-          warnLog('战斗记录截图获取失败:', e)
-          errorMessage = `截图获取失败: ${e?.message || '未知错误'}`
+        // 处理文本输出
+        if (config.enableTextOutput) {
+          debugLog('启用文本输出，开始获取战斗记录数据')
+          try {
+            results.text = await getBattlelogById(id)
+            debugLog('战斗记录文本信息已准备')
+          } catch (e: any) {
+            warnLog('战斗记录文本获取失败:', e)
+            results.errors.push(`文本获取失败: ${e?.message || '未知错误'}`)
+          }
+        }
+
+        // 处理截图输出
+        if (config.enableScreenshotOutput) {
+          try {
+            debugLog('开始获取战斗记录截图')
+            results.screenshot = await takeBattlelogScreenshot(id)
+            debugLog('战斗记录截图已准备')
+          } catch (e: any) {
+            warnLog('战斗记录截图获取失败:', e)
+            results.errors.push(`截图获取失败: ${e?.message || '未知错误'}`)
+          }
         }
 
         infoLog(`战斗记录查询完成`)
@@ -1461,19 +3688,40 @@ function parsePlayerSearchResults(html: string): PlayerSearchResult[] {
           }
         }
 
-        // 发送结果
-        if (screenshotBuffer) {
+        // 发送结果 - 分别发送，避免一个失败影响另一个
+        const responses: string[] = []
+
+        if (results.text) {
+          try {
+            await session?.send(formatBattlelog(results.text))
+            responses.push('文本信息发送成功')
+          } catch (e) {
+            warnLog('文本信息发送失败:', e)
+            responses.push('文本信息发送失败')
+          }
+        }
+
+        if (results.screenshot) {
           try {
             await session?.send(`📸 战斗记录截图：`)
-            await session?.send(h.image(screenshotBuffer, 'image/png'))
-            return null // 成功发送截图
+            await session?.send(h.image(results.screenshot, 'image/png'))
+            responses.push('截图发送成功')
           } catch (e) {
             warnLog('截图发送失败:', e)
-            return '截图发送失败'
+            responses.push('截图发送失败')
           }
-        } else {
-          return errorMessage || '查询失败，无法获取战斗记录截图'
         }
+
+        if (results.errors.length > 0) {
+          if (responses.length === 0) return `战斗记录查询失败：${results.errors.join(', ')}`
+          responses.push(`部分功能失败: ${results.errors.join(', ')}`)
+        }
+
+        if (responses.length === 0) {
+          return '查询完成但没有可显示的内容'
+        }
+
+        return null // 已经分别发送了，不需要return
         
       } catch (e: any) {
         warnLog('战斗记录查询失败:', e)
@@ -1492,6 +3740,305 @@ function parsePlayerSearchResults(html: string): PlayerSearchResult[] {
       }
     })
 
+  // 玩家对比命令
+  ctx.command('对比 <playerA:string> <playerB:string>', '对比两名 SF6 玩家的数据')
+    .example('对比 1234567890 2345678901')
+    .example('对比 @小明 @小红')
+    .action(async ({ session }, playerA, playerB) => {
+      if (!playerA || !playerB) {
+        return '用法：对比 <玩家ID或@用户> <玩家ID或@用户>\n例如：对比 1234567890 2345678901'
+      }
+
+      const a = await resolvePlayerArg(session!, playerA)
+      if (a.error) return a.error
+      const b = await resolvePlayerArg(session!, playerB)
+      if (b.error) return b.error
+      if (a.id === b.id) return '请提供两个不同的玩家。'
+
+      const cooldown = await checkCooldown(session!, 'compare')
+      if (cooldown) return cooldown
+
+      infoLog(`开始对比玩家: ${a.id} vs ${b.id}`)
+
+      // 显示等待消息
+      let waitingMessageId: string | undefined
+      if (config.showWaitingMessage) {
+        const waitingMessage = await session?.send(`🔍 正在对比玩家 ${a.id} 与 ${b.id}，请稍候...${queueHint()}`)
+        if (waitingMessage && Array.isArray(waitingMessage) && waitingMessage[0]) {
+          waitingMessageId = waitingMessage[0]
+          debugLog(`显示等待消息: ${waitingMessageId}`)
+        }
+      }
+
+      // 分别获取各项数据，避免一项失败影响整体
+      const errors: string[] = []
+      const sides: CompareSide[] = [{ id: a.id }, { id: b.id }]
+      for (const side of sides) {
+        try {
+          side.rank = await getRankDataById(side.id)
+        } catch (e: any) {
+          warnLog(`对比时获取排位数据失败 ${side.id}:`, e)
+          errors.push(`${side.id} 排位: ${e?.message || '未知错误'}`)
+        }
+        try {
+          side.winRate = await getWinRateDataById(side.id)
+        } catch (e: any) {
+          warnLog(`对比时获取胜率数据失败 ${side.id}:`, e)
+          errors.push(`${side.id} 胜率: ${e?.message || '未知错误'}`)
+        }
+        try {
+          side.battlelog = await getBattlelogById(side.id)
+        } catch (e: any) {
+          // 战斗记录只用于交手统计，失败时不影响对比结果
+          debugLog(`对比时获取战斗记录失败 ${side.id}:`, e)
+        }
+      }
+
+      infoLog('玩家对比完成')
+
+      // 撤回等待消息
+      if (waitingMessageId && session?.bot?.deleteMessage) {
+        try {
+          await session.bot.deleteMessage(session.channelId, waitingMessageId)
+          debugLog(`撤回等待消息: ${waitingMessageId}`)
+        } catch (e) {
+          debugLog(`撤回等待消息失败: ${e}`)
+        }
+      }
+
+      if (sides.every(side => !side.rank && !side.winRate)) {
+        if (errors.some(e => e.includes('Cookie'))) {
+          return '对比失败：需要有效登录 Cookie。请检查配置中的Cookie设置。'
+        }
+        return `对比失败：${errors.join(', ')}`
+      }
+
+      const output = formatComparison(sides[0], sides[1])
+      return errors.length > 0 ? `${output}\n部分数据获取失败: ${errors.join(', ')}` : output
+    })
+
+  // 段位趋势与段位图表共用：解析玩家、时间范围和角色，取出对应的快照序列
+  async function loadTrendSeries(session: Session | undefined, playerId: string | undefined, options: { range?: string; character?: string; account?: string }) {
+    const target = await resolveQueryTarget(session!, playerId, options.account)
+    if (target.error) return { error: target.error }
+    const id = target.id
+
+    const range = TREND_RANGES[options.range]
+    if (!range) return { error: '时间范围错误，可选：day / week / month' }
+
+    const since = new Date(Date.now() - range.days * 24 * 60 * 60 * 1000)
+    const snapshots = await getSnapshots(id, since)
+    if (snapshots.length === 0) {
+      return { error: `暂无玩家 ${id} ${range.label}的段位记录。使用 排位查询 后会自动记录。` }
+    }
+
+    let character = options.character?.trim()
+    if (!character) {
+      character = [...snapshots].reverse().find(s => s.isMain)?.character || snapshots[snapshots.length - 1].character
+    }
+    const series = snapshots.filter(s => s.character === character)
+    if (series.length === 0) {
+      const characters = [...new Set(snapshots.map(s => s.character))]
+      return { error: `${range.label}没有角色 ${character} 的段位记录。有记录的角色：${characters.join('、')}` }
+    }
+
+    return { id, series, rangeLabel: range.label, playerName: rankCache.peek(`rank:${id}`)?.playerName }
+  }
+
+  // 段位趋势命令
+  ctx.command('段位趋势 [playerId:string]', '查看 SF6 段位积分变化趋势')
+    .option('range', '-r <range:string> 时间范围：day / week / month', { fallback: 'week' })
+    .option('character', '-c <character:string> 指定角色，默认为主用角色')
+    .option('account', '-a <account:string> 使用指定别名或序号的绑定账号')
+    .example('段位趋势 1234567890')
+    .example('段位趋势 1234567890 -r month -c 隆')
+    .action(async ({ session, options }, playerId) => {
+      try {
+        const trend = await loadTrendSeries(session, playerId, options)
+        if (trend.error) return trend.error
+        return formatTrend(trend.id, trend.series, trend.rangeLabel, trend.playerName)
+      } catch (e: any) {
+        warnLog('段位趋势查询失败:', e)
+        return `段位趋势查询失败：${e?.message || '未知错误'}`
+      }
+    })
+
+  // 段位图表命令 - 只使用本地记录的快照绘制，不访问 Buckler
+  ctx.command('段位图表 [playerId:string]', '绘制 SF6 段位积分变化图表')
+    .option('range', '-r <range:string> 时间范围：day / week / month', { fallback: 'week' })
+    .option('character', '-c <character:string> 指定角色，默认为主用角色')
+    .option('account', '-a <account:string> 使用指定别名或序号的绑定账号')
+    .example('段位图表 1234567890')
+    .example('段位图表 1234567890 -r month -c 隆')
+    .action(async ({ session, options }, playerId) => {
+      try {
+        const trend = await loadTrendSeries(session, playerId, options)
+        if (trend.error) return trend.error
+        if (trend.series.length < 2) {
+          return `${trend.rangeLabel}只有 1 条记录，至少需要 2 条记录才能绘制图表。`
+        }
+        const chart = await renderTrendChart(trend.id, trend.series, trend.rangeLabel, trend.playerName)
+        return h.image(chart, 'image/png')
+      } catch (e: any) {
+        warnLog('段位图表绘制失败:', e)
+        if (String(e?.message).includes('puppeteer')) {
+          return '图表功能不可用：需要安装 puppeteer 插件。'
+        }
+        return `段位图表绘制失败：${e?.message || '未知错误'}`
+      }
+    })
+
+  // 订阅段位变动通知
+  ctx.command('订阅段位 [playerId:string]', '在当前频道订阅玩家的段位变动通知')
+    .option('account', '-a <account:string> 使用指定别名或序号的绑定账号')
+    .example('订阅段位')
+    .example('订阅段位 @小明')
+    .example('订阅段位 -a alt')
+    .action(async ({ session, options }, playerId) => {
+      if (!config.enableNotification) return '段位变动通知未启用，请联系管理员在配置中开启。'
+      if (!session?.channelId || session.isDirect) return '请在群聊频道中使用此命令。'
+
+      const target = await resolveQueryTarget(session, playerId, options.account)
+      if (target.error) return target.error
+      const id = target.id
+
+      try {
+        const query = { platform: session.platform, channelId: session.channelId, playerId: id }
+        const existing = await ctx.database.get('streetfighter6_subscription', query)
+        if (existing.length > 0) return `本频道已订阅玩家 ${id} 的段位变动。`
+        await ctx.database.create('streetfighter6_subscription', { ...query, selfId: session.selfId, createdAt: new Date() })
+        infoLog(`频道 ${session.platform}:${session.channelId} 订阅玩家 ${id}`)
+        return `已订阅玩家 ${id} 的段位变动，每 ${config.notifyInterval} 分钟检查一次。`
+      } catch (e: any) {
+        warnLog('订阅段位失败:', e)
+        return `订阅失败：${e?.message || '未知错误'}`
+      }
+    })
+
+  // 取消订阅段位变动通知
+  ctx.command('取消订阅段位 [playerId:string]', '取消当前频道对玩家段位变动的订阅')
+    .option('account', '-a <account:string> 使用指定别名或序号的绑定账号')
+    .example('取消订阅段位 1234567890')
+    .action(async ({ session, options }, playerId) => {
+      if (!session?.channelId || session.isDirect) return '请在群聊频道中使用此命令。'
+
+      const target = await resolveQueryTarget(session, playerId, options.account)
+      if (target.error) return target.error
+      const id = target.id
+
+      try {
+        const result = await ctx.database.remove('streetfighter6_subscription', {
+          platform: session.platform,
+          channelId: session.channelId,
+          playerId: id,
+        })
+        if (!result.removed) return `本频道未订阅玩家 ${id}。`
+        infoLog(`频道 ${session.platform}:${session.channelId} 取消订阅玩家 ${id}`)
+        return `已取消订阅玩家 ${id} 的段位变动。`
+      } catch (e: any) {
+        warnLog('取消订阅段位失败:', e)
+        return `取消订阅失败：${e?.message || '未知错误'}`
+      }
+    })
+
+  // 查看本频道的订阅
+  ctx.command('订阅列表', '查看当前频道订阅的玩家')
+    .action(async ({ session }) => {
+      if (!session?.channelId || session.isDirect) return '请在群聊频道中使用此命令。'
+      try {
+        const subscriptions = await ctx.database.get('streetfighter6_subscription', {
+          platform: session.platform,
+          channelId: session.channelId,
+        })
+        if (subscriptions.length === 0) return '本频道尚未订阅任何玩家。'
+        const lines = subscriptions.map((sub, index) => {
+          const name = rankCache.peek(`rank:${sub.playerId}`)?.playerName
+          return `${index + 1}. ${name ? `${name} (ID: ${sub.playerId})` : sub.playerId}`
+        })
+        return [`本频道订阅了 ${subscriptions.length} 名玩家：`, ...lines].join('\n')
+      } catch (e: any) {
+        warnLog('获取订阅列表失败:', e)
+        return `获取订阅列表失败：${e?.message || '未知错误'}`
+      }
+    })
+
+  // 群排行命令
+  ctx.command('群排行', '查看本群已绑定玩家的段位排行')
+    .option('character', '-c <character:string> 只比较指定角色的段位')
+    .option('image', '-i 以图片形式输出')
+    .example('群排行')
+    .example('群排行 -c 隆 -i')
+    .action(async ({ session, options }) => {
+      if (!session?.guildId || session.isDirect) return '请在群聊中使用此命令。'
+      const cooldown = await checkCooldown(session, 'leaderboard')
+      if (cooldown) return cooldown
+
+      let members: Array<{ memberName: string; binding: StreetFighter6Binding }>
+      try {
+        members = await getChannelBindings(session)
+      } catch (e: any) {
+        warnLog('获取群成员失败:', e)
+        return '无法获取群成员列表，当前平台可能不支持此功能。'
+      }
+      if (members.length === 0) return '本群还没有成员绑定玩家ID。'
+
+      const character = options.character?.trim()
+      infoLog(`开始生成群排行: ${session.platform}:${session.guildId}，共 ${members.length} 名已绑定成员`)
+
+      // 显示等待消息
+      let waitingMessageId: string | undefined
+      if (config.showWaitingMessage) {
+        const waitingMessage = await session.send(`🔍 正在获取 ${members.length} 名成员的段位数据，请稍候...${queueHint()}`)
+        if (waitingMessage && Array.isArray(waitingMessage) && waitingMessage[0]) {
+          waitingMessageId = waitingMessage[0]
+          debugLog(`显示等待消息: ${waitingMessageId}`)
+        }
+      }
+
+      const entries: LeaderboardEntry[] = []
+      let failed = 0
+      for (const { memberName, binding } of members) {
+        const cached = rankCache.peek(`rank:${binding.playerId}`)
+        try {
+          const data = cached || await getRankDataById(binding.playerId)
+          const entry = toLeaderboardEntry(memberName, data, character)
+          if (entry) entries.push(entry)
+        } catch (e) {
+          warnLog(`群排行获取 ${binding.playerId} 失败:`, e)
+          failed++
+        }
+        // 未命中缓存时才会请求 Buckler，请求之间留出间隔
+        if (!cached) await ctx.sleep(1000)
+      }
+
+      // 撤回等待消息
+      if (waitingMessageId && session.bot?.deleteMessage) {
+        try {
+          await session.bot.deleteMessage(session.channelId, waitingMessageId)
+          debugLog(`撤回等待消息: ${waitingMessageId}`)
+        } catch (e) {
+          debugLog(`撤回等待消息失败: ${e}`)
+        }
+      }
+
+      if (entries.length === 0) {
+        return character ? `本群没有成员使用 ${character} 定级。` : '未能获取任何成员的段位数据。'
+      }
+
+      const sorted = sortLeaderboard(entries)
+      const title = `🏆 本群段位排行${character ? `（${character}）` : ''}`
+      const note = failed > 0 ? `\n（${failed} 名成员的数据获取失败）` : ''
+      if (options.image) {
+        try {
+          const image = await renderLeaderboard(sorted, title.replace('🏆 ', ''))
+          return h('message', h.image(image, 'image/png'), note.trim())
+        } catch (e: any) {
+          warnLog('群排行图片渲染失败，改用文本输出:', e)
+        }
+      }
+      return formatLeaderboard(sorted, title) + note
+    })
+
   // 玩家搜索命令
   ctx.command('玩家搜索 <playerName:string>', '搜索 SF6 玩家')
     .example('玩家搜索 幻想童話')
@@ -1503,20 +4050,16 @@ function parsePlayerSearchResults(html: string): PlayerSearchResult[] {
       }
 
       const name = playerName.trim()
-      const userId = session?.userId || 'unknown'
-      const cooldownKey = `search:${userId}:${name}`
-      
-      if (inCooldown(cooldownKey)) {
-        return `查询太频繁，请稍后再试。（冷却时间：${COOLDOWN_SEC}秒）`
-      }
+      const cooldown = await checkCooldown(session!, 'search')
+      if (cooldown) return cooldown
 
       try {
         infoLog(`开始搜索玩家: ${name}`)
         
         // 显示等待消息
         let waitingMessageId: string | undefined
-        if (SHOW_WAITING_MESSAGE) {
-          const waitingMessage = await session?.send(`🔍 正在搜索玩家 "${name}"，请稍候...`)
+        if (config.showWaitingMessage) {
+          const waitingMessage = await session?.send(`🔍 正在搜索玩家 "${name}"，请稍候...${queueHint()}`)
           if (waitingMessage && Array.isArray(waitingMessage) && waitingMessage[0]) {
             waitingMessageId = waitingMessage[0]
             debugLog(`显示等待消息: ${waitingMessageId}`)
@@ -1643,15 +4186,107 @@ function parsePlayerSearchResults(html: string): PlayerSearchResult[] {
       }
     })
 
+  // 缓存状态命令
+  ctx.command('sf6缓存状态', '查看 SF6 插件的缓存命中情况', { authority: 3 })
+    .action(() => {
+      const report = cache.report()
+      const parts: string[] = []
+      parts.push(`缓存条目：${report.entries} / ${config.cacheMaxEntries}`)
+      parts.push(`占用：${(report.bytes / 1024 / 1024).toFixed(2)} MB / ${config.cacheMaxSizeMB} MB`)
+      parts.push(`持久化：${config.cachePersistence}`)
+      for (const ns of report.namespaces) {
+        const total = ns.hits + ns.misses
+        const rate = total ? (ns.hits / total * 100).toFixed(1) : '0.0'
+        parts.push(`${ns.name}：命中 ${ns.hits}，未命中 ${ns.misses}（命中率 ${rate}%）`)
+      }
+      return parts.join('\n')
+    })
+
+  ctx.command('sf6cookie设置 [cookie:text]', '设置或更换 Buckler 登录 Cookie，每行一个', { authority: 4 })
+    .option('clear', '-c 清除已设置的 Cookie，恢复使用配置中的 Cookie')
+    .example('sf6cookie设置 buckler_id=xxx; buckler_r_id=xxx')
+    .example('sf6cookie设置 -c')
+    .action(async ({ session, options }, cookie) => {
+      if (options.clear) {
+        await saveRuntimeCookies([])
+        infoLog('管理员清除了运行时 Cookie')
+        return cookiePool.entries.length
+          ? `已清除，恢复使用配置中的 ${cookiePool.entries.length} 个 Cookie。`
+          : '已清除，当前没有可用的 Cookie。'
+      }
+
+      const values = (cookie ?? '').split('\n').map(v => v.trim()).filter(Boolean)
+      if (!values.length) return '用法：sf6cookie设置 <Cookie>，多个 Cookie 每行一个\n例如：sf6cookie设置 buckler_id=xxx; buckler_r_id=xxx'
+
+      await saveRuntimeCookies(values)
+      infoLog(`管理员更新了 ${cookiePool.entries.length} 个 Cookie`)
+
+      const reply = `已更新 ${cookiePool.entries.length} 个 Cookie，可使用 sf6cookie检测 确认是否有效。`
+      // Cookie 属于敏感信息，在群聊中设置时尝试撤回原消息
+      if (!session!.isDirect) {
+        try {
+          await session!.bot.deleteMessage(session!.channelId!, session!.messageId!)
+        } catch (e) {
+          debugLog('撤回 Cookie 消息失败:', e)
+        }
+        return reply + '\n请尽量在私聊中设置 Cookie。'
+      }
+      return reply
+    })
+
+  ctx.command('sf6cookie状态', '查看 Buckler 登录 Cookie 池中各 Cookie 的状态', { authority: 3 })
+    .action(() => {
+      if (!cookiePool.entries.length) return '当前未设置 Cookie。'
+      const now = Date.now()
+      const parts: string[] = []
+      parts.push(`来源：${cookieSource.source === 'database' ? '管理员命令设置' : '插件配置'}`)
+      if (cookieSource.updatedAt) parts.push(`更新时间：${formatDateTime(cookieSource.updatedAt)}`)
+      if (cookiePool.allDead) parts.push('❌ 所有 Cookie 均已失效，查询暂停')
+      for (const entry of cookiePool.entries) {
+        const state = entry.dead
+          ? '❌ 已失效'
+          : entry.benchedUntil > now
+            ? `⏸️ 暂停中（约 ${Math.ceil((entry.benchedUntil - now) / 60000)} 分钟后恢复）`
+            : '✅ 正常'
+        parts.push('')
+        parts.push(`${cookieLabel(entry)} ${redactCookie(entry.value)}  ${state}`)
+        parts.push(`使用 ${entry.uses} 次，最近成功：${entry.lastSuccess ? formatDateTime(entry.lastSuccess) : '暂无记录'}`)
+        if (entry.lastFailure) parts.push(`最近失败：${formatDateTime(entry.lastFailure)}（${entry.failureReason}）`)
+        if (entry.loginPageStreak) parts.push(`连续遇到登录页：${entry.loginPageStreak} 次`)
+      }
+      return parts.join('\n')
+    })
+
+  ctx.command('sf6cookie检测 [playerId:string]', '用每个 Cookie 访问玩家资料页，检测是否有效', { authority: 3 })
+    .example('sf6cookie检测')
+    .example('sf6cookie检测 1234567890')
+    .action(async ({ session }, playerId) => {
+      if (!cookiePool.entries.length) return '当前未设置 Cookie。'
+      const id = playerId?.trim() || config.cookieProbePlayerId?.trim() || await getSessionPlayerId(session!)
+      if (!id) return '请提供玩家ID，或在配置中设置检测用的玩家ID。'
+
+      // 直接请求页面，不使用缓存
+      const parts = [`检测玩家 ${id} 的资料页：`]
+      for (const entry of cookiePool.entries) {
+        try {
+          const html = await requestPage(profileUrl(id), entry)
+          parts.push(looksLikeLoginPage(html)
+            ? `❌ ${cookieLabel(entry)} 已失效：跳转到了登录页`
+            : `✅ ${cookieLabel(entry)} 有效`)
+        } catch (e: any) {
+          warnLog(`检测 Cookie ${cookieLabel(entry)} 失败:`, e)
+          parts.push(`⚠️ ${cookieLabel(entry)} 检测失败：${e?.message || '未知错误'}`)
+        }
+      }
+      return parts.join('\n')
+    })
+
   // 资源回收
   ctx.on('dispose', () => {
-    rankCache.clear()
-    screenshotCache.clear()
-    winRateCache.clear()
-    winRateScreenshotCache.clear()
-    battlelogScreenshotCache.clear()
-    playerSearchCache.clear()
-    playerSearchScreenshotCache.clear()
-    cooldownMap.clear()
+    cache.dispose()
+    scheduler.dispose()
+    pagePool.dispose()
+    rateLimiter.clear()
+    snapshotWinRateFetchedAt.clear()
   })
 }
\ No newline at end of file